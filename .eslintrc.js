@@ -7,7 +7,7 @@ module.exports = {
     root: true,
     parser: "@typescript-eslint/parser",
     parserOptions: {
-        project: "tsconfig.json",
+        project: ["tsconfig.json", "test/tsconfig.json"],
         tsconfigRootDir: ".",
     },
     plugins: [
@@ -16,5 +16,13 @@ module.exports = {
     extends: [
         "plugin:powerbi-visuals/recommended"
     ],
-    rules: {}
+    rules: {},
+    overrides: [
+        {
+            files: ["test/**/*.ts"],
+            env: {
+                "jest": true
+            }
+        }
+    ]
 };
\ No newline at end of file
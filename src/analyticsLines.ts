@@ -0,0 +1,61 @@
+/**
+ * Returns the arithmetic mean of the values, 0 for an empty list.
+ *
+ * @function
+ * @param {number[]} values - Measure values.
+ */
+export function calculateAverage(values: number[]): number {
+    if (values.length === 0) {
+        return 0;
+    }
+
+    return values.reduce((sum: number, value: number) => sum + value, 0) / values.length;
+}
+
+/**
+ * Returns the percentile of the values using linear interpolation between closest ranks,
+ * 0 for an empty list.
+ *
+ * @function
+ * @param {number[]} values     - Measure values.
+ * @param {number} percentile   - Percentile, 0 to 100.
+ */
+export function calculatePercentile(values: number[], percentile: number): number {
+    if (values.length === 0) {
+        return 0;
+    }
+
+    const sorted: number[] = values.slice().sort((a: number, b: number) => a - b);
+    const rank: number = Math.min(Math.max(percentile, 0), 100) / 100 * (sorted.length - 1);
+    const lower: number = Math.floor(rank);
+    const upper: number = Math.ceil(rank);
+
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Returns the median of the values, 0 for an empty list.
+ *
+ * @function
+ * @param {number[]} values - Measure values.
+ */
+export function calculateMedian(values: number[]): number {
+    return calculatePercentile(values, 50);
+}
+
+/**
+ * Maps a dashStyle enumeration value to an SVG stroke-dasharray.
+ *
+ * @function
+ * @param {string} dashStyle - One of "dashed", "dotted" or "solid".
+ */
+export function getDashArray(dashStyle: string): string {
+    switch (dashStyle) {
+        case "dotted":
+            return "2,3";
+        case "solid":
+            return "none";
+        default:
+            return "6,6";
+    }
+}
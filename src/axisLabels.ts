@@ -0,0 +1,83 @@
+export const enum AxisLabelMode {
+    Auto = "Auto",
+    Horizontal = "Horizontal",
+    Rotate45 = "Rotate45",
+    Rotate90 = "Rotate90",
+    Wrap = "Wrap",
+    Truncate = "Truncate"
+}
+
+/**
+ * Measured size of the category labels and of the room each one has.
+ *
+ * @interface
+ * @property {number} widestLabel    - Width of the widest category label, untruncated.
+ * @property {number} labelHeight    - Height of one line of label text.
+ * @property {number} bandwidth      - Width of one category band on the x axis.
+ * @property {number} maxLabelLength - Longest a rotated label may get before it is truncated.
+ * @property {number} maxWrapLines   - Most lines a wrapped label may take.
+ */
+export interface AxisLabelMeasurement {
+    widestLabel: number;
+    labelHeight: number;
+    bandwidth: number;
+    maxLabelLength: number;
+    maxWrapLines: number;
+}
+
+const Sin45: number = Math.SQRT1_2;
+
+function getWrapLines(measurement: AxisLabelMeasurement): number {
+    return Math.ceil(measurement.widestLabel / Math.max(measurement.bandwidth, 1));
+}
+
+/**
+ * Returns the label mode to draw with. Explicit modes are kept; Auto picks the first mode
+ * in which labels don't overlap: horizontal, wrapped, rotated by 45 and then by 90 degrees.
+ *
+ * @function
+ * @param {AxisLabelMode} mode                 - Mode chosen in the formatting pane.
+ * @param {AxisLabelMeasurement} measurement   - Measured label sizes.
+ */
+export function resolveAxisLabelMode(mode: AxisLabelMode, measurement: AxisLabelMeasurement): AxisLabelMode {
+    if (mode !== AxisLabelMode.Auto) {
+        return mode;
+    }
+
+    if (measurement.widestLabel <= measurement.bandwidth) {
+        return AxisLabelMode.Horizontal;
+    }
+
+    // A word narrower than three characters per line is not worth wrapping
+    if (getWrapLines(measurement) <= measurement.maxWrapLines && measurement.bandwidth >= measurement.labelHeight * 3) {
+        return AxisLabelMode.Wrap;
+    }
+
+    if (measurement.bandwidth >= measurement.labelHeight / Sin45) {
+        return AxisLabelMode.Rotate45;
+    }
+
+    return AxisLabelMode.Rotate90;
+}
+
+/**
+ * Returns the height the labels take below the axis in the given, resolved, mode.
+ *
+ * @function
+ * @param {AxisLabelMode} mode               - Resolved label mode.
+ * @param {AxisLabelMeasurement} measurement - Measured label sizes.
+ */
+export function getAxisLabelAreaHeight(mode: AxisLabelMode, measurement: AxisLabelMeasurement): number {
+    const labelLength: number = Math.min(measurement.widestLabel, measurement.maxLabelLength);
+
+    switch (mode) {
+        case AxisLabelMode.Rotate45:
+            return (labelLength + measurement.labelHeight) * Sin45;
+        case AxisLabelMode.Rotate90:
+            return labelLength;
+        case AxisLabelMode.Wrap:
+            return measurement.labelHeight * Math.min(getWrapLines(measurement), measurement.maxWrapLines);
+        default:
+            return measurement.labelHeight;
+    }
+}
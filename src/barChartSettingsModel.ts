@@ -1,39 +1,490 @@
 import powerbiVisualsApi from "powerbi-visuals-api";
 import { formattingSettings } from "powerbi-visuals-utils-formattingmodel";
-import { BarChartDataPoint } from "./paretoChart";
+import { dataViewWildcard } from "powerbi-visuals-utils-dataviewutils";
+import { BarChartDataPoint, BarChartMeasure, BarChartSeries } from "./paretoChart";
+import { SortDirection, TieBreak } from "./paretoOrdering";
+import { OtherBucketMode } from "./paretoOtherBucket";
+import { LabelContent, LabelPosition } from "./dataLabels";
+import { AxisLabelMode } from "./axisLabels";
+import { ValuePolicy } from "./valuePolicy";
+import { TransitionEasing } from "./transitions";
+import { BarColorMode } from "./paretoThreshold";
 
 import Card = formattingSettings.SimpleCard;
 import Model = formattingSettings.Model;
+import ILocalizationManager = powerbiVisualsApi.extensibility.ILocalizationManager;
 
-class EnableAxisCardSettings extends Card {
+/**
+ * Most categories listed with their own color, in Pareto order, so the formatting pane
+ * stays usable with thousands of categories; the rest take the default color or a rule
+ */
+const MaxCategoryColorPickers = 100;
+
+/**
+ * Dropdown choice whose display name is looked up in the string resources, the
+ * formatting settings service only localizes the names of cards and slices
+ */
+interface LocalizedEnumMember extends powerbiVisualsApi.IEnumMember {
+    displayNameKey: string;
+}
+
+/**
+ * Text input whose placeholder is looked up in the string resources. When the value is
+ * still the default, which matches the placeholder, it is localized as well.
+ */
+class LocalizedTextInput extends formattingSettings.TextInput {
+    placeholderKey: string;
+
+    constructor(object: LocalizedTextInput) {
+        super(object);
+    }
+}
+
+/**
+ * Options shared by the category, value and cumulative percent axes
+ */
+export abstract class AxisCardSettings extends Card {
     show = new formattingSettings.ToggleSwitch({
         name: "show",
         displayName: undefined,
-        value: false,
+        value: true,
+    });
+
+    font = new formattingSettings.FontControl({
+        name: "font",
+        displayName: "Font",
+        displayNameKey: "Visual_Font",
+        fontFamily: new formattingSettings.FontPicker({
+            name: "fontFamily",
+            displayName: "Font Family",
+            value: "Segoe UI, wf_segoe-ui_normal, helvetica, arial, sans-serif"
+        }),
+        fontSize: new formattingSettings.NumUpDown({
+            name: "fontSize",
+            displayName: "Font Size",
+            value: 11,
+            options: {
+                minValue: {
+                    type: powerbiVisualsApi.visuals.ValidatorType.Min,
+                    value: 6,
+                }
+            }
+        }),
+        bold: new formattingSettings.ToggleSwitch({
+            name: "bold",
+            displayName: "bold",
+            value: false
+        }),
+        italic: new formattingSettings.ToggleSwitch({
+            name: "italic",
+            displayName: "italic",
+            value: false
+        }),
+        underline: new formattingSettings.ToggleSwitch({
+            name: "underline",
+            displayName: "underline",
+            value: false
+        })
     });
 
     fill = new formattingSettings.ColorPicker({
         name: "fill",
         displayName: "Color",
+        displayNameKey: "Visual_Color",
         value: { value: "#000000" }
     });
+
+    showTitle = new formattingSettings.ToggleSwitch({
+        name: "showTitle",
+        displayName: "Title",
+        displayNameKey: "Visual_Title",
+        value: false
+    });
+
+    titleText = new LocalizedTextInput({
+        name: "titleText",
+        displayName: "Title Text",
+        displayNameKey: "Visual_TitleText",
+        value: "",
+        placeholder: "Field name",
+        placeholderKey: "Visual_FieldName"
+    });
+
+    showGridlines = new formattingSettings.ToggleSwitch({
+        name: "showGridlines",
+        displayName: "Gridlines",
+        displayNameKey: "Visual_Gridlines",
+        value: false
+    });
+
+    tickCount = new formattingSettings.NumUpDown({
+        name: "tickCount",
+        displayName: "Tick Count (0 = auto)",
+        displayNameKey: "Visual_TickCount",
+        value: 0,
+        options: {
+            minValue: {
+                type: powerbiVisualsApi.visuals.ValidatorType.Min,
+                value: 0,
+            }
+        }
+    });
+
     topLevelSlice = this.show;
-    name: string = "enableAxis";
-    displayName: string = "Enable Axis";
-    slices = [this.fill];
 }
 
+class CategoryAxisCardSettings extends AxisCardSettings {
+    private labelModeOptions: LocalizedEnumMember[] = [
+        { displayName: "Auto", displayNameKey: "Visual_Auto", value: AxisLabelMode.Auto },
+        { displayName: "Horizontal", displayNameKey: "Visual_Horizontal", value: AxisLabelMode.Horizontal },
+        { displayName: "Rotate 45°", displayNameKey: "Visual_Rotate45", value: AxisLabelMode.Rotate45 },
+        { displayName: "Rotate 90°", displayNameKey: "Visual_Rotate90", value: AxisLabelMode.Rotate90 },
+        { displayName: "Word wrap", displayNameKey: "Visual_WordWrap", value: AxisLabelMode.Wrap },
+        { displayName: "Truncate", displayNameKey: "Visual_Truncate", value: AxisLabelMode.Truncate }
+    ];
+
+    labelMode = new formattingSettings.ItemDropdown({
+        name: "labelMode",
+        displayName: "Category Labels",
+        displayNameKey: "Visual_CategoryLabels",
+        items: this.labelModeOptions,
+        value: this.labelModeOptions[0]
+    });
+
+    displayUnits = new formattingSettings.AutoDropdown({
+        name: "displayUnits",
+        displayName: "Display Units",
+        displayNameKey: "Visual_DisplayUnits",
+        value: 0
+    });
+
+    name: string = "categoryAxis";
+    displayName: string = "X-Axis";
+    displayNameKey: string = "Visual_XAxis";
+    slices = [
+        this.font, this.fill, this.labelMode, this.displayUnits,
+        this.showTitle, this.titleText, this.showGridlines, this.tickCount
+    ];
+}
+
+class ValueAxisCardSettings extends AxisCardSettings {
+    displayUnits = new formattingSettings.AutoDropdown({
+        name: "displayUnits",
+        displayName: "Display Units",
+        displayNameKey: "Visual_DisplayUnits",
+        value: 0
+    });
+
+    start = new formattingSettings.NumUpDown({
+        name: "start",
+        displayName: "Minimum",
+        displayNameKey: "Visual_Minimum",
+        value: null
+    });
+
+    end = new formattingSettings.NumUpDown({
+        name: "end",
+        displayName: "Maximum",
+        displayNameKey: "Visual_Maximum",
+        value: null
+    });
+
+    name: string = "valueAxis";
+    displayName: string = "Y-Axis";
+    displayNameKey: string = "Visual_YAxis";
+    slices = [
+        this.font, this.fill, this.displayUnits, this.start, this.end,
+        this.showTitle, this.titleText, this.showGridlines, this.tickCount
+    ];
+}
+
+class PercentAxisCardSettings extends AxisCardSettings {
+    private rangeOptions: LocalizedEnumMember[] = [
+        { displayName: "0 - 100%", displayNameKey: "Visual_FullRange", value: "Full" },
+        { displayName: "Fit to data", displayNameKey: "Visual_FitToData", value: "Fit" }
+    ];
+
+    range = new formattingSettings.ItemDropdown({
+        name: "range",
+        displayName: "Range",
+        displayNameKey: "Visual_Range",
+        items: this.rangeOptions,
+        value: this.rangeOptions[0]
+    });
+
+    name: string = "percentAxis";
+    displayName: string = "Cumulative % Axis";
+    displayNameKey: string = "Visual_CumulativePercentAxis";
+    slices = [
+        this.font, this.fill, this.range,
+        this.showTitle, this.titleText, this.showGridlines, this.tickCount
+    ];
+}
+
+class LegendCardSettings extends Card {
+    show = new formattingSettings.ToggleSwitch({
+        name: "show",
+        displayName: undefined,
+        value: true,
+    });
+
+    font = new formattingSettings.FontControl({
+        name: "font",
+        displayName: "Font",
+        displayNameKey: "Visual_Font",
+        fontFamily: new formattingSettings.FontPicker({
+            name: "fontFamily",
+            displayName: "Font Family",
+            value: "Segoe UI, wf_segoe-ui_normal, helvetica, arial, sans-serif"
+        }),
+        fontSize: new formattingSettings.NumUpDown({
+            name: "fontSize",
+            displayName: "Font Size",
+            value: 10,
+            options: {
+                minValue: {
+                    type: powerbiVisualsApi.visuals.ValidatorType.Min,
+                    value: 6,
+                }
+            }
+        }),
+        bold: new formattingSettings.ToggleSwitch({
+            name: "bold",
+            displayName: "bold",
+            value: false
+        }),
+        italic: new formattingSettings.ToggleSwitch({
+            name: "italic",
+            displayName: "italic",
+            value: false
+        }),
+        underline: new formattingSettings.ToggleSwitch({
+            name: "underline",
+            displayName: "underline",
+            value: false
+        })
+    });
+
+    fill = new formattingSettings.ColorPicker({
+        name: "fill",
+        displayName: "Color",
+        displayNameKey: "Visual_Color",
+        value: { value: "#666666" }
+    });
+
+    showTitle = new formattingSettings.ToggleSwitch({
+        name: "showTitle",
+        displayName: "Title",
+        displayNameKey: "Visual_Title",
+        value: true
+    });
+
+    titleText = new LocalizedTextInput({
+        name: "titleText",
+        displayName: "Title Text",
+        displayNameKey: "Visual_TitleText",
+        value: "",
+        placeholder: "Field name",
+        placeholderKey: "Visual_FieldName"
+    });
+
+    topLevelSlice = this.show;
+    name: string = "legend";
+    displayName: string = "Legend";
+    displayNameKey: string = "Visual_Legend";
+    slices = [this.font, this.fill, this.showTitle, this.titleText];
+}
 
 class ColorSelectorCardSettings extends Card {
+    private colorByOptions: LocalizedEnumMember[] = [
+        { displayName: "Category", displayNameKey: "Visual_Category", value: BarColorMode.Category },
+        { displayName: "Pareto zone", displayNameKey: "Visual_ParetoZone", value: BarColorMode.ParetoZone }
+    ];
+
+    colorBy = new formattingSettings.ItemDropdown({
+        name: "colorBy",
+        displayName: "Color By",
+        displayNameKey: "Visual_ColorBy",
+        items: this.colorByOptions,
+        value: this.colorByOptions[0]
+    });
+
+    // a rule is saved on the wildcard and evaluated per category, a constant color is
+    // saved on every category; until one is, the picker shows the settings default
+    defaultColor = new formattingSettings.ColorPicker({
+        name: "fill",
+        displayName: "Default Color",
+        displayNameKey: "Visual_DefaultColor",
+        value: { value: "#118DFF" },
+        selector: dataViewWildcard.createDataViewWildcardSelector(dataViewWildcard.DataViewWildcardMatchingOption.InstancesAndTotals),
+        instanceKind: powerbiVisualsApi.VisualEnumerationInstanceKinds.ConstantOrRule,
+    });
+
+    showAll = new formattingSettings.ToggleSwitch({
+        name: "showAll",
+        displayName: "Show All",
+        displayNameKey: "Visual_ShowAll",
+        value: false
+    });
+
+    zoneAThreshold = new formattingSettings.NumUpDown({
+        name: "zoneAThreshold",
+        displayName: "Zone A Cumulative %",
+        displayNameKey: "Visual_ZoneAThreshold",
+        value: 80,
+        options: {
+            minValue: {
+                type: powerbiVisualsApi.visuals.ValidatorType.Min,
+                value: 1,
+            },
+            maxValue: {
+                type: powerbiVisualsApi.visuals.ValidatorType.Max,
+                value: 100,
+            }
+        }
+    });
+
+    zoneBThreshold = new formattingSettings.NumUpDown({
+        name: "zoneBThreshold",
+        displayName: "Zone B Cumulative %",
+        displayNameKey: "Visual_ZoneBThreshold",
+        value: 95,
+        options: {
+            minValue: {
+                type: powerbiVisualsApi.visuals.ValidatorType.Min,
+                value: 1,
+            },
+            maxValue: {
+                type: powerbiVisualsApi.visuals.ValidatorType.Max,
+                value: 100,
+            }
+        }
+    });
+
+    zoneAFill = new formattingSettings.ColorPicker({
+        name: "zoneAFill",
+        displayName: "Zone A Color",
+        displayNameKey: "Visual_ZoneAColor",
+        value: { value: "#C4314B" },
+    });
+
+    zoneBFill = new formattingSettings.ColorPicker({
+        name: "zoneBFill",
+        displayName: "Zone B Color",
+        displayNameKey: "Visual_ZoneBColor",
+        value: { value: "#E6A117" },
+    });
+
+    zoneCFill = new formattingSettings.ColorPicker({
+        name: "zoneCFill",
+        displayName: "Zone C Color",
+        displayNameKey: "Visual_ZoneCColor",
+        value: { value: "#B3B0AD" },
+    });
+
     name: string = "colorSelector";
     displayName: string = "Data Colors";
-    slices = [];
+    displayNameKey: string = "Visual_DataColors";
+    slices: formattingSettings.Slice[] = [this.colorBy, this.defaultColor, this.showAll, this.zoneAThreshold,
+        this.zoneBThreshold, this.zoneAFill, this.zoneBFill, this.zoneCFill];
+}
+
+class MeasuresCardSettings extends Card {
+    sortMeasure = new formattingSettings.ItemDropdown({
+        name: "sortMeasure",
+        displayName: "Sort By",
+        displayNameKey: "Visual_SortBy",
+        items: [],
+        value: undefined
+    });
+
+    name: string = "measures";
+    displayName: string = "Measures";
+    displayNameKey: string = "Visual_Measures";
+    visible: boolean = false;
+    slices: formattingSettings.Slice[] = [this.sortMeasure];
+}
+
+class SmallMultiplesCardSettings extends Card {
+    rows = new formattingSettings.NumUpDown({
+        name: "rows",
+        displayName: "Rows (0 = auto)",
+        displayNameKey: "Visual_Rows",
+        value: 0,
+        options: {
+            minValue: {
+                type: powerbiVisualsApi.visuals.ValidatorType.Min,
+                value: 0,
+            }
+        }
+    });
+
+    columns = new formattingSettings.NumUpDown({
+        name: "columns",
+        displayName: "Columns (0 = auto)",
+        displayNameKey: "Visual_Columns",
+        value: 0,
+        options: {
+            minValue: {
+                type: powerbiVisualsApi.visuals.ValidatorType.Min,
+                value: 0,
+            }
+        }
+    });
+
+    sharedAxes = new formattingSettings.ToggleSwitch({
+        name: "sharedAxes",
+        displayName: "Shared axes",
+        displayNameKey: "Visual_SharedAxes",
+        value: true
+    });
+
+    showTitle = new formattingSettings.ToggleSwitch({
+        name: "showTitle",
+        displayName: "Panel title",
+        displayNameKey: "Visual_PanelTitle",
+        value: true
+    });
+
+    titleFontSize = new formattingSettings.NumUpDown({
+        name: "titleFontSize",
+        displayName: "Title Text Size",
+        displayNameKey: "Visual_TitleTextSize",
+        value: 12,
+        options: {
+            minValue: {
+                type: powerbiVisualsApi.visuals.ValidatorType.Min,
+                value: 6,
+            }
+        }
+    });
+
+    titleFill = new formattingSettings.ColorPicker({
+        name: "titleFill",
+        displayName: "Title Color",
+        displayNameKey: "Visual_TitleColor",
+        value: { value: "#252423" }
+    });
+
+    name: string = "smallMultiples";
+    displayName: string = "Small Multiples";
+    displayNameKey: string = "Visual_SmallMultiples";
+    visible: boolean = false;
+    slices = [this.rows, this.columns, this.sharedAxes, this.showTitle, this.titleFontSize, this.titleFill];
 }
 
 class GeneralViewCardSettings extends Card {
+    private easingOptions: LocalizedEnumMember[] = [
+        { displayName: "Ease In and Out", displayNameKey: "Visual_EaseInOut", value: TransitionEasing.EaseInOut },
+        { displayName: "Ease Out", displayNameKey: "Visual_EaseOut", value: TransitionEasing.EaseOut },
+        { displayName: "Linear", displayNameKey: "Visual_Linear", value: TransitionEasing.Linear },
+        { displayName: "Bounce", displayNameKey: "Visual_Bounce", value: TransitionEasing.Bounce }
+    ];
+
     opacity = new formattingSettings.NumUpDown({
         name: "opacity",
         displayName: "Bars Opacity",
+        displayNameKey: "Visual_BarsOpacity",
         value: 100,
         options: {
             minValue: {
@@ -50,16 +501,421 @@ class GeneralViewCardSettings extends Card {
     showHelpLink = new formattingSettings.ToggleSwitch({
         name: "showHelpLink",
         displayName: "Show Help Button",
+        displayNameKey: "Visual_ShowHelpButton",
         value: false
     });
 
+    showExportButton = new formattingSettings.ToggleSwitch({
+        name: "showExportButton",
+        displayName: "Show Export Button",
+        displayNameKey: "Visual_ShowExportButton",
+        value: true
+    });
+
+    animate = new formattingSettings.ToggleSwitch({
+        name: "animate",
+        displayName: "Animate Changes",
+        displayNameKey: "Visual_AnimateChanges",
+        value: true
+    });
+
+    animationDuration = new formattingSettings.NumUpDown({
+        name: "animationDuration",
+        displayName: "Animation Duration (ms)",
+        displayNameKey: "Visual_AnimationDuration",
+        value: 500,
+        options: {
+            minValue: {
+                type: powerbiVisualsApi.visuals.ValidatorType.Min,
+                value: 0,
+            },
+            maxValue: {
+                type: powerbiVisualsApi.visuals.ValidatorType.Max,
+                value: 3000,
+            }
+        }
+    });
+
+    animationEasing = new formattingSettings.ItemDropdown({
+        name: "animationEasing",
+        displayName: "Animation Easing",
+        displayNameKey: "Visual_AnimationEasing",
+        items: this.easingOptions,
+        value: this.easingOptions[0]
+    });
+
     name: string = "generalView";
     displayName: string = "General View";
+    displayNameKey: string = "Visual_GeneralView";
     helpLinkColor: string = "#80B0E0"
-    slices = [this.opacity, this.showHelpLink];
+    slices = [this.opacity, this.showHelpLink, this.showExportButton, this.animate, this.animationDuration, this.animationEasing];
+}
+
+class SortingCardSettings extends Card {
+    private directionOptions: LocalizedEnumMember[] = [
+        { displayName: "Descending", displayNameKey: "Visual_Descending", value: SortDirection.Descending },
+        { displayName: "Ascending", displayNameKey: "Visual_Ascending", value: SortDirection.Ascending },
+        { displayName: "Unsorted", displayNameKey: "Visual_Unsorted", value: SortDirection.None }
+    ];
+    private tieBreakOptions: LocalizedEnumMember[] = [
+        { displayName: "Category name", displayNameKey: "Visual_CategoryName", value: TieBreak.Category },
+        { displayName: "Source order", displayNameKey: "Visual_SourceOrder", value: TieBreak.SourceOrder }
+    ];
+
+    direction = new formattingSettings.ItemDropdown({
+        name: "direction",
+        displayName: "Direction",
+        displayNameKey: "Visual_Direction",
+        items: this.directionOptions,
+        value: this.directionOptions[0]
+    });
+
+    tieBreak = new formattingSettings.ItemDropdown({
+        name: "tieBreak",
+        displayName: "Ties",
+        displayNameKey: "Visual_Ties",
+        items: this.tieBreakOptions,
+        value: this.tieBreakOptions[0]
+    });
+
+    name: string = "sorting";
+    displayName: string = "Sorting";
+    displayNameKey: string = "Visual_Sorting";
+    slices = [this.direction, this.tieBreak];
+}
+
+class InvalidValuesCardSettings extends Card {
+    private policyOptions: LocalizedEnumMember[] = [
+        { displayName: "Treat as zero", displayNameKey: "Visual_TreatAsZero", value: ValuePolicy.Zero },
+        { displayName: "Exclude", displayNameKey: "Visual_Exclude", value: ValuePolicy.Exclude },
+        { displayName: "Absolute value", displayNameKey: "Visual_AbsoluteValue", value: ValuePolicy.Absolute }
+    ];
+
+    policy = new formattingSettings.ItemDropdown({
+        name: "policy",
+        displayName: "Nulls, negatives and text",
+        displayNameKey: "Visual_NullsNegativesAndText",
+        items: this.policyOptions,
+        value: this.policyOptions[0]
+    });
+
+    showWarning = new formattingSettings.ToggleSwitch({
+        name: "showWarning",
+        displayName: "Warn about excluded values",
+        displayNameKey: "Visual_WarnAboutExcludedValues",
+        value: true
+    });
+
+    name: string = "invalidValues";
+    displayName: string = "Invalid Values";
+    displayNameKey: string = "Visual_InvalidValues";
+    slices = [this.policy, this.showWarning];
+}
+
+class AllOtherCardSettings extends Card {
+    private modeOptions: LocalizedEnumMember[] = [
+        { displayName: "Top N", displayNameKey: "Visual_TopN", value: OtherBucketMode.TopN },
+        { displayName: "Cumulative %", displayNameKey: "Visual_CumulativePercent", value: OtherBucketMode.CumulativePercent }
+    ];
+
+    show = new formattingSettings.ToggleSwitch({
+        name: "show",
+        displayName: undefined,
+        value: false,
+    });
+
+    mode = new formattingSettings.ItemDropdown({
+        name: "mode",
+        displayName: "Keep",
+        displayNameKey: "Visual_Keep",
+        items: this.modeOptions,
+        value: this.modeOptions[0]
+    });
+
+    topN = new formattingSettings.NumUpDown({
+        name: "topN",
+        displayName: "Top N",
+        displayNameKey: "Visual_TopN",
+        value: 10,
+        options: {
+            minValue: {
+                type: powerbiVisualsApi.visuals.ValidatorType.Min,
+                value: 1,
+            }
+        }
+    });
+
+    cutoff = new formattingSettings.NumUpDown({
+        name: "cutoff",
+        displayName: "Cumulative % cutoff",
+        displayNameKey: "Visual_CumulativePercentCutoff",
+        value: 95,
+        options: {
+            minValue: {
+                type: powerbiVisualsApi.visuals.ValidatorType.Min,
+                value: 1,
+            },
+            maxValue: {
+                type: powerbiVisualsApi.visuals.ValidatorType.Max,
+                value: 100,
+            }
+        }
+    });
+
+    label = new LocalizedTextInput({
+        name: "label",
+        displayName: "Label",
+        displayNameKey: "Visual_Label",
+        value: "All other",
+        placeholder: "All other",
+        placeholderKey: "Visual_AllOtherLabel"
+    });
+
+    fill = new formattingSettings.ColorPicker({
+        name: "fill",
+        displayName: "Color",
+        displayNameKey: "Visual_Color",
+        value: { value: "#A0A0A0" }
+    });
+
+    topLevelSlice = this.show;
+    name: string = "allOther";
+    displayName: string = "All Other";
+    displayNameKey: string = "Visual_AllOther";
+    slices = [this.mode, this.topN, this.cutoff, this.label, this.fill];
+}
+
+class TooltipOptionsCardSettings extends Card {
+    showRank = new formattingSettings.ToggleSwitch({
+        name: "showRank",
+        displayName: "Rank",
+        displayNameKey: "Visual_Rank",
+        value: true
+    });
+
+    showShare = new formattingSettings.ToggleSwitch({
+        name: "showShare",
+        displayName: "Share of Total",
+        displayNameKey: "Visual_ShareOfTotal",
+        value: true
+    });
+
+    showCumulativeShare = new formattingSettings.ToggleSwitch({
+        name: "showCumulativeShare",
+        displayName: "Cumulative Share",
+        displayNameKey: "Visual_CumulativeShare",
+        value: true
+    });
+
+    name: string = "tooltipOptions";
+    displayName: string = "Tooltip Content";
+    displayNameKey: string = "Visual_TooltipContent";
+    slices = [this.showRank, this.showShare, this.showCumulativeShare];
+}
+
+class DataLabelsCardSettings extends Card {
+    private contentOptions: LocalizedEnumMember[] = [
+        { displayName: "Value", displayNameKey: "Visual_Value", value: LabelContent.Value },
+        { displayName: "Percent of total", displayNameKey: "Visual_PercentOfTotal", value: LabelContent.Percent },
+        { displayName: "Both", displayNameKey: "Visual_Both", value: LabelContent.Both }
+    ];
+    private positionOptions: LocalizedEnumMember[] = [
+        { displayName: "Inside end", displayNameKey: "Visual_InsideEnd", value: LabelPosition.InsideEnd },
+        { displayName: "Outside end", displayNameKey: "Visual_OutsideEnd", value: LabelPosition.OutsideEnd },
+        { displayName: "Center", displayNameKey: "Visual_Center", value: LabelPosition.Center }
+    ];
+
+    show = new formattingSettings.ToggleSwitch({
+        name: "show",
+        displayName: undefined,
+        value: false,
+    });
+
+    content = new formattingSettings.ItemDropdown({
+        name: "content",
+        displayName: "Content",
+        displayNameKey: "Visual_Content",
+        items: this.contentOptions,
+        value: this.contentOptions[0]
+    });
+
+    displayUnits = new formattingSettings.AutoDropdown({
+        name: "displayUnits",
+        displayName: "Display Units",
+        displayNameKey: "Visual_DisplayUnits",
+        value: 0
+    });
+
+    precision = new formattingSettings.NumUpDown({
+        name: "precision",
+        displayName: "Decimal Places",
+        displayNameKey: "Visual_DecimalPlaces",
+        value: 0,
+        options: {
+            minValue: {
+                type: powerbiVisualsApi.visuals.ValidatorType.Min,
+                value: 0,
+            },
+            maxValue: {
+                type: powerbiVisualsApi.visuals.ValidatorType.Max,
+                value: 9,
+            }
+        }
+    });
+
+    position = new formattingSettings.ItemDropdown({
+        name: "position",
+        displayName: "Position",
+        displayNameKey: "Visual_Position",
+        items: this.positionOptions,
+        value: this.positionOptions[0]
+    });
+
+    fill = new formattingSettings.ColorPicker({
+        name: "fill",
+        displayName: "Color",
+        displayNameKey: "Visual_Color",
+        value: { value: "#333333" }
+    });
+
+    fontSize = new formattingSettings.NumUpDown({
+        name: "fontSize",
+        displayName: "Text Size",
+        displayNameKey: "Visual_TextSize",
+        value: 9,
+        options: {
+            minValue: {
+                type: powerbiVisualsApi.visuals.ValidatorType.Min,
+                value: 6,
+            }
+        }
+    });
+
+    topLevelSlice = this.show;
+    name: string = "dataLabels";
+    displayName: string = "Data Labels";
+    displayNameKey: string = "Visual_DataLabels";
+    slices = [this.content, this.displayUnits, this.precision, this.position, this.fill, this.fontSize];
+}
+
+const dashStyleOptions: LocalizedEnumMember[] = [
+    { displayName: "Dashed", displayNameKey: "Visual_Dashed", value: "dashed" },
+    { displayName: "Dotted", displayNameKey: "Visual_Dotted", value: "dotted" },
+    { displayName: "Solid", displayNameKey: "Visual_Solid", value: "solid" }
+];
+
+class CumulativeLineCardSettings extends Card {
+    private interpolationOptions: LocalizedEnumMember[] = [
+        { displayName: "Linear", displayNameKey: "Visual_Linear", value: "linear" },
+        { displayName: "Step", displayNameKey: "Visual_Step", value: "step" },
+        { displayName: "Smooth", displayNameKey: "Visual_Smooth", value: "monotone" }
+    ];
+    private markerShapeOptions: LocalizedEnumMember[] = [
+        { displayName: "Circle", displayNameKey: "Visual_Circle", value: "circle" },
+        { displayName: "Square", displayNameKey: "Visual_Square", value: "square" },
+        { displayName: "Diamond", displayNameKey: "Visual_Diamond", value: "diamond" },
+        { displayName: "Triangle", displayNameKey: "Visual_Triangle", value: "triangle" }
+    ];
+
+    fill = new formattingSettings.ColorPicker({
+        name: "fill",
+        displayName: "Color",
+        displayNameKey: "Visual_Color",
+        value: { value: "#000000" }
+    });
+
+    strokeWidth = new formattingSettings.NumUpDown({
+        name: "strokeWidth",
+        displayName: "Width",
+        displayNameKey: "Visual_Width",
+        value: 2,
+        options: {
+            minValue: {
+                type: powerbiVisualsApi.visuals.ValidatorType.Min,
+                value: 1,
+            },
+            maxValue: {
+                type: powerbiVisualsApi.visuals.ValidatorType.Max,
+                value: 10,
+            }
+        }
+    });
+
+    dashStyle = new formattingSettings.ItemDropdown({
+        name: "dashStyle",
+        displayName: "Style",
+        displayNameKey: "Visual_Style",
+        items: dashStyleOptions,
+        value: dashStyleOptions[2]
+    });
+
+    interpolation = new formattingSettings.ItemDropdown({
+        name: "interpolation",
+        displayName: "Interpolation",
+        displayNameKey: "Visual_Interpolation",
+        items: this.interpolationOptions,
+        value: this.interpolationOptions[0]
+    });
+
+    showMarkers = new formattingSettings.ToggleSwitch({
+        name: "showMarkers",
+        displayName: "Markers",
+        displayNameKey: "Visual_Markers",
+        value: true
+    });
+
+    markerShape = new formattingSettings.ItemDropdown({
+        name: "markerShape",
+        displayName: "Marker Shape",
+        displayNameKey: "Visual_MarkerShape",
+        items: this.markerShapeOptions,
+        value: this.markerShapeOptions[0]
+    });
+
+    markerSize = new formattingSettings.NumUpDown({
+        name: "markerSize",
+        displayName: "Marker Size",
+        displayNameKey: "Visual_MarkerSize",
+        value: 8,
+        options: {
+            minValue: {
+                type: powerbiVisualsApi.visuals.ValidatorType.Min,
+                value: 2,
+            },
+            maxValue: {
+                type: powerbiVisualsApi.visuals.ValidatorType.Max,
+                value: 30,
+            }
+        }
+    });
+
+    markerFill = new formattingSettings.ColorPicker({
+        name: "markerFill",
+        displayName: "Marker Color",
+        displayNameKey: "Visual_MarkerColor",
+        value: { value: "#FFFFFF" }
+    });
+
+    showDataLabels = new formattingSettings.ToggleSwitch({
+        name: "showDataLabels",
+        displayName: "Percentage Labels",
+        displayNameKey: "Visual_PercentageLabels",
+        value: false
+    });
+
+    name: string = "cumulativeLine";
+    displayName: string = "Cumulative Line";
+    displayNameKey: string = "Visual_CumulativeLine";
+    slices = [
+        this.fill, this.strokeWidth, this.dashStyle, this.interpolation,
+        this.showMarkers, this.markerShape, this.markerSize, this.markerFill, this.showDataLabels
+    ];
 }
 
-class AverageLineCardSettings extends Card {
+/**
+ * Options shared by every analytics pane reference line
+ */
+export abstract class AnalyticsLineCardSettings extends Card {
     show = new formattingSettings.ToggleSwitch({
         name: "show",
         displayName: undefined,
@@ -69,28 +925,193 @@ class AverageLineCardSettings extends Card {
     fill = new formattingSettings.ColorPicker({
         name: "fill",
         displayName: "Color",
+        displayNameKey: "Visual_Color",
         value: { value: "#888888" },
     });
 
+    dashStyle = new formattingSettings.ItemDropdown({
+        name: "dashStyle",
+        displayName: "Style",
+        displayNameKey: "Visual_Style",
+        items: dashStyleOptions,
+        value: dashStyleOptions[0]
+    });
+
     showDataLabel = new formattingSettings.ToggleSwitch({
         name: "showDataLabel",
         displayName: "Data Label",
+        displayNameKey: "Visual_DataLabel",
         value: false
     });
 
+    abstract labelText: formattingSettings.TextInput;
+
     topLevelSlice = this.show;
+    analyticsPane: boolean = true;
+}
+
+class AverageLineCardSettings extends AnalyticsLineCardSettings {
+    labelText = new LocalizedTextInput({
+        name: "displayName",
+        displayName: "Label Text",
+        displayNameKey: "Visual_LabelText",
+        value: "Average",
+        placeholder: "Average",
+        placeholderKey: "Visual_Average"
+    });
+
     name: string = "averageLine";
     displayName: string = "Average Line";
+    displayNameKey: string = "Visual_AverageLine";
+    slices = [this.labelText, this.fill, this.dashStyle, this.showDataLabel];
+}
+
+class MedianLineCardSettings extends AnalyticsLineCardSettings {
+    labelText = new LocalizedTextInput({
+        name: "displayName",
+        displayName: "Label Text",
+        displayNameKey: "Visual_LabelText",
+        value: "Median",
+        placeholder: "Median",
+        placeholderKey: "Visual_Median"
+    });
+
+    name: string = "medianLine";
+    displayName: string = "Median Line";
+    displayNameKey: string = "Visual_MedianLine";
+    slices = [this.labelText, this.fill, this.dashStyle, this.showDataLabel];
+}
+
+class PercentileLineCardSettings extends AnalyticsLineCardSettings {
+    percentile = new formattingSettings.NumUpDown({
+        name: "percentile",
+        displayName: "Percentile",
+        displayNameKey: "Visual_Percentile",
+        value: 90,
+        options: {
+            minValue: {
+                type: powerbiVisualsApi.visuals.ValidatorType.Min,
+                value: 0,
+            },
+            maxValue: {
+                type: powerbiVisualsApi.visuals.ValidatorType.Max,
+                value: 100,
+            }
+        }
+    });
+
+    labelText = new LocalizedTextInput({
+        name: "displayName",
+        displayName: "Label Text",
+        displayNameKey: "Visual_LabelText",
+        value: "Percentile",
+        placeholder: "Percentile",
+        placeholderKey: "Visual_Percentile"
+    });
+
+    name: string = "percentileLine";
+    displayName: string = "Percentile Line";
+    displayNameKey: string = "Visual_PercentileLine";
+    slices = [this.percentile, this.labelText, this.fill, this.dashStyle, this.showDataLabel];
+}
+
+class ConstantLineCardSettings extends AnalyticsLineCardSettings {
+    lineValue = new formattingSettings.NumUpDown({
+        name: "value",
+        displayName: "Value",
+        displayNameKey: "Visual_Value",
+        value: 0
+    });
+
+    labelText = new LocalizedTextInput({
+        name: "displayName",
+        displayName: "Label Text",
+        displayNameKey: "Visual_LabelText",
+        value: "Constant",
+        placeholder: "Constant",
+        placeholderKey: "Visual_Constant"
+    });
+
+    name: string = "constantLine";
+    displayName: string = "Constant Line";
+    displayNameKey: string = "Visual_ConstantLine";
+    slices = [this.lineValue, this.labelText, this.fill, this.dashStyle, this.showDataLabel];
+}
+
+class VitalFewCardSettings extends Card {
+    show = new formattingSettings.ToggleSwitch({
+        name: "show",
+        displayName: undefined,
+        value: false,
+    });
+
+    threshold = new formattingSettings.NumUpDown({
+        name: "threshold",
+        displayName: "Cumulative %",
+        displayNameKey: "Visual_CumulativePercent",
+        value: 80,
+        options: {
+            minValue: {
+                type: powerbiVisualsApi.visuals.ValidatorType.Min,
+                value: 1,
+            },
+            maxValue: {
+                type: powerbiVisualsApi.visuals.ValidatorType.Max,
+                value: 100,
+            }
+        }
+    });
+
+    fill = new formattingSettings.ColorPicker({
+        name: "fill",
+        displayName: "Line Color",
+        displayNameKey: "Visual_LineColor",
+        value: { value: "#C4314B" },
+    });
+
+    highlightBars = new formattingSettings.ToggleSwitch({
+        name: "highlightBars",
+        displayName: "Highlight Bars",
+        displayNameKey: "Visual_HighlightBars",
+        value: true
+    });
+
+    vitalFewFill = new formattingSettings.ColorPicker({
+        name: "vitalFewFill",
+        displayName: "Vital Few Color",
+        displayNameKey: "Visual_VitalFewColor",
+        value: { value: "#118DFF" },
+    });
+
+    trivialManyFill = new formattingSettings.ColorPicker({
+        name: "trivialManyFill",
+        displayName: "Trivial Many Color",
+        displayNameKey: "Visual_TrivialManyColor",
+        value: { value: "#B3B0AD" },
+    });
+
+    showDataLabel = new formattingSettings.ToggleSwitch({
+        name: "showDataLabel",
+        displayName: "Data Label",
+        displayNameKey: "Visual_DataLabel",
+        value: true
+    });
+
+    topLevelSlice = this.show;
+    name: string = "vitalFew";
+    displayName: string = "Vital Few Threshold";
+    displayNameKey: string = "Visual_VitalFewThreshold";
     analyticsPane: boolean = true;
-    slices = [this.show, this.fill, this.showDataLabel];
+    slices = [this.threshold, this.fill, this.highlightBars, this.vitalFewFill, this.trivialManyFill, this.showDataLabel];
 }
 
 class DirectEditSettings extends Card {
     displayName = 'Direct Edit';
+    displayNameKey = 'Visual_DirectEdit';
     name = 'directEdit';
     private minFontSize: number = 8;
     private defaultFontSize: number = 11;
-    private positionOptions: powerbiVisualsApi.IEnumMember[] = [{ displayName: 'Right', value: 'Right' }, { displayName: 'Left', value: 'Left' }]
+    private positionOptions: LocalizedEnumMember[] = [{ displayName: 'Right', displayNameKey: 'Visual_Right', value: 'Right' }, { displayName: 'Left', displayNameKey: 'Visual_Left', value: 'Left' }]
     show = new formattingSettings.ToggleSwitch({
         name: "show",
         displayName: undefined,
@@ -100,6 +1121,7 @@ class DirectEditSettings extends Card {
     topLevelSlice = this.show;
     textProperty = new formattingSettings.TextInput({
         displayName: "Text Property",
+        displayNameKey: "Visual_TextProperty",
         name: "textProperty",
         value: "What is your quest?",
         placeholder: ""
@@ -108,6 +1130,7 @@ class DirectEditSettings extends Card {
     position = new formattingSettings.ItemDropdown({
         name: 'position',
         displayName: 'Position',
+        displayNameKey: 'Visual_Position',
         items: this.positionOptions,
         value: this.positionOptions[0]
     });
@@ -115,6 +1138,7 @@ class DirectEditSettings extends Card {
     font = new formattingSettings.FontControl({
         name: "font",
         displayName: 'Font',
+        displayNameKey: 'Visual_Font',
         fontFamily: new formattingSettings.FontPicker({
             name: "fontFamily",
             displayName: "Font Family",
@@ -151,11 +1175,13 @@ class DirectEditSettings extends Card {
     fontColor = new formattingSettings.ColorPicker({
         name: "fontColor",
         displayName: "Color",
+        displayNameKey: "Visual_Color",
         value: { value: "#000000" }
     });
     background = new formattingSettings.ColorPicker({
         name: "background",
         displayName: "Background Color",
+        displayNameKey: "Visual_BackgroundColor",
         value: { value: "#FFFFFF" }
     });
     slices = [this.textProperty, this.font, this.fontColor, this.background, this.position];
@@ -165,26 +1191,120 @@ class DirectEditSettings extends Card {
 * BarChart formatting settings model class
 */
 export class BarChartSettingsModel extends Model {
-    enableAxis = new EnableAxisCardSettings();
+    categoryAxis = new CategoryAxisCardSettings();
+    valueAxis = new ValueAxisCardSettings();
+    percentAxis = new PercentAxisCardSettings();
+    legend = new LegendCardSettings();
     colorSelector = new ColorSelectorCardSettings();
+    measures = new MeasuresCardSettings();
+    smallMultiples = new SmallMultiplesCardSettings();
     generalView = new GeneralViewCardSettings();
+    sorting = new SortingCardSettings();
+    invalidValues = new InvalidValuesCardSettings();
+    allOther = new AllOtherCardSettings();
+    tooltipOptions = new TooltipOptionsCardSettings();
+    cumulativeLine = new CumulativeLineCardSettings();
+    dataLabels = new DataLabelsCardSettings();
     averageLine = new AverageLineCardSettings();
+    medianLine = new MedianLineCardSettings();
+    percentileLine = new PercentileLineCardSettings();
+    constantLine = new ConstantLineCardSettings();
+    vitalFew = new VitalFewCardSettings();
     directEditSettings = new DirectEditSettings();
-    cards = [this.enableAxis, this.colorSelector, this.generalView, this.averageLine];
+    cards = [this.categoryAxis, this.valueAxis, this.percentAxis, this.legend, this.colorSelector, this.measures, this.smallMultiples,
+        this.generalView, this.sorting, this.invalidValues, this.allOther, this.tooltipOptions, this.cumulativeLine, this.dataLabels,
+        this.averageLine, this.medianLine, this.percentileLine, this.constantLine, this.vitalFew];
 
     /**
-     * populate colorSelector object categories formatting properties
+     * translate what the formatting settings service leaves in English: the dropdown
+     * choices, the text input placeholders and the default texts
+     * @param localizationManager
+     */
+    localize(localizationManager: ILocalizationManager) {
+        [...this.cards, this.directEditSettings].forEach(card => {
+            card.slices.forEach(slice => {
+                if (slice instanceof formattingSettings.ItemDropdown) {
+                    slice.items.forEach((item: LocalizedEnumMember) => {
+                        if (item.displayNameKey) {
+                            item.displayName = localizationManager.getDisplayName(item.displayNameKey);
+                        }
+                    });
+                } else if (slice instanceof LocalizedTextInput) {
+                    const placeholder: string = localizationManager.getDisplayName(slice.placeholderKey);
+                    if (slice.value === slice.placeholder) {
+                        slice.value = placeholder;
+                    }
+                    slice.placeholder = placeholder;
+                }
+            });
+        });
+    }
+
+    /**
+     * populate the measures card with the sort measure choices and one color per measure,
+     * the card is only shown when more than one measure is bound
+     * @param measures 
+     * @param objects 
+     */
+    populateMeasures(measures: BarChartMeasure[], objects: powerbiVisualsApi.DataViewObjects) {
+        const sortMeasure: formattingSettings.ItemDropdown = this.measures.sortMeasure;
+        // The choices depend on the bound fields, so the saved value is matched here
+        const savedSortMeasure = objects?.[this.measures.name]?.[sortMeasure.name];
+
+        this.measures.visible = measures.length > 1;
+        sortMeasure.items = measures.map(measure => ({ displayName: measure.name, value: measure.queryName }));
+        sortMeasure.value = sortMeasure.items.filter(item => item.value === savedSortMeasure)[0] || sortMeasure.items[0];
+
+        measures.forEach(measure => {
+            this.measures.slices.push(new formattingSettings.ColorPicker({
+                name: "fill",
+                displayName: measure.name,
+                value: { value: measure.color },
+                selector: { metadata: measure.queryName },
+            }));
+        });
+    }
+
+    /**
+     * populate the data colors card: one color per series when bars are stacked, otherwise
+     * the zone colors or a default color that takes conditional formatting rules, with one
+     * color per category, in the order of the given data points, once "Show all" is on
      * @param dataPoints 
+     * @param series 
      */
-    populateColorSelector(dataPoints: BarChartDataPoint[]) {
-        const slices: formattingSettings.ColorPicker[] = this.colorSelector.slices;
-        if (dataPoints) {
-            dataPoints.forEach(dataPoint => {
-                slices.push(new formattingSettings.ColorPicker({
+    populateColorSelector(dataPoints: BarChartDataPoint[], series: BarChartSeries[]) {
+        const colorSelector = this.colorSelector;
+        if (series.length) {
+            colorSelector.slices = series.map(seriesItem => new formattingSettings.ColorPicker({
+                name: "fill",
+                displayName: seriesItem.name,
+                value: { value: seriesItem.color },
+                selector: seriesItem.selectionId.getSelector(),
+            }));
+            return;
+        }
+
+        if (colorSelector.colorBy.value.value === BarColorMode.ParetoZone) {
+            colorSelector.slices = [colorSelector.colorBy, colorSelector.zoneAThreshold, colorSelector.zoneBThreshold,
+                colorSelector.zoneAFill, colorSelector.zoneBFill, colorSelector.zoneCFill];
+            return;
+        }
+
+        // the "All other" bucket is colored from its own card
+        const categoryDataPoints = (dataPoints || []).filter(dataPoint => !dataPoint.otherMembers);
+
+        colorSelector.slices = [colorSelector.colorBy, colorSelector.defaultColor, colorSelector.showAll];
+
+        if (colorSelector.showAll.value) {
+            categoryDataPoints.slice(0, MaxCategoryColorPickers).forEach(dataPoint => {
+                colorSelector.slices.push(new formattingSettings.ColorPicker({
                     name: "fill",
                     displayName: dataPoint.category,
                     value: { value: dataPoint.color },
-                    selector: dataPoint.selectionId.getSelector(),
+                    // a rule is evaluated per category, a constant color is saved on the category
+                    selector: colorSelector.defaultColor.selector,
+                    altConstantSelector: dataPoint.categorySelectionId.getSelector(),
+                    instanceKind: powerbiVisualsApi.VisualEnumerationInstanceKinds.ConstantOrRule,
                 }));
             });
         }
@@ -0,0 +1,91 @@
+/**
+ * Space taken by one axis, measured before the scales are computed.
+ *
+ * @interface
+ * @property {boolean} show      - Whether the axis is drawn at all.
+ * @property {number} labelSize  - Height of the tick labels (x axis) or width of the widest label (y axes).
+ * @property {number} titleSize  - Height of the axis title, 0 when there is none.
+ */
+export interface AxisMeasurement {
+    show: boolean;
+    labelSize: number;
+    titleSize: number;
+}
+
+/**
+ * Everything that has to be fitted around the plot area.
+ *
+ * @interface
+ * @property {number} width               - Viewport width.
+ * @property {number} height              - Viewport height.
+ * @property {AxisMeasurement} xAxis      - Category axis below the plot.
+ * @property {AxisMeasurement} yAxisLeft  - Value axis left of the plot.
+ * @property {AxisMeasurement} yAxisRight - Cumulative percent axis right of the plot.
+ * @property {number} legendHeight        - Height of the legend above the plot, 0 when hidden.
+ * @property {number} topReserved         - Height of other elements drawn above the plot (e.g. the direct edit box).
+ */
+export interface LayoutInput {
+    width: number;
+    height: number;
+    xAxis: AxisMeasurement;
+    yAxisLeft: AxisMeasurement;
+    yAxisRight: AxisMeasurement;
+    legendHeight: number;
+    topReserved: number;
+}
+
+export interface Margins {
+    top: number;
+    right: number;
+    bottom: number;
+    left: number;
+}
+
+/**
+ * Result of the layout step: margins around the plot area and its size.
+ *
+ * @interface
+ * @property {Margins} margins    - Space reserved on each side of the plot.
+ * @property {number} plotWidth   - Width available to the bars.
+ * @property {number} plotHeight  - Height available to the bars.
+ */
+export interface ChartLayout {
+    margins: Margins;
+    plotWidth: number;
+    plotHeight: number;
+}
+
+// Length of the axis ticks plus the gap between the tick and its label, see d3-axis defaults
+const AxisTickSpace: number = 9;
+export const OuterPadding: number = 4;
+const MinPlotSize: number = 1;
+
+function getAxisSpace(axis: AxisMeasurement): number {
+    if (!axis.show) {
+        return 0;
+    }
+
+    return AxisTickSpace + axis.labelSize + axis.titleSize;
+}
+
+/**
+ * Reserves space for the axes, their titles, the legend and the elements above the plot,
+ * then returns what is left for the plot area. Hidden axes take no space.
+ *
+ * @function
+ * @param {LayoutInput} input - Viewport and measured sizes.
+ */
+export function computeLayout(input: LayoutInput): ChartLayout {
+    const margins: Margins = {
+        top: OuterPadding + input.legendHeight + input.topReserved,
+        right: OuterPadding + getAxisSpace(input.yAxisRight),
+        bottom: OuterPadding + getAxisSpace(input.xAxis),
+        left: OuterPadding + getAxisSpace(input.yAxisLeft),
+    };
+
+    return {
+        margins,
+        plotWidth: Math.max(MinPlotSize, input.width - margins.left - margins.right),
+        plotHeight: Math.max(MinPlotSize, input.height - margins.top - margins.bottom),
+    };
+}
@@ -0,0 +1,193 @@
+import * as d3 from "d3";
+
+export const enum LabelPosition {
+    InsideEnd = "InsideEnd",
+    OutsideEnd = "OutsideEnd",
+    Center = "Center"
+}
+
+export const enum LabelContent {
+    Value = "Value",
+    Percent = "Percent",
+    Both = "Both"
+}
+
+/**
+ * Axis aligned rectangle in SVG coordinates.
+ *
+ * @interface
+ * @property {number} x      - Left edge.
+ * @property {number} y      - Top edge.
+ * @property {number} width  - Width of the rectangle.
+ * @property {number} height - Height of the rectangle.
+ */
+export interface LabelBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Piece of a drawn line as a cubic Bezier curve: start point, two control points and
+ * end point. Straight pieces have their control points on their ends.
+ */
+type CurveSegment = [[number, number], [number, number], [number, number], [number, number]];
+
+const LabelPadding: number = 2;
+
+const CurveSamples: number = 16;
+
+const AllPositions: LabelPosition[] = [LabelPosition.InsideEnd, LabelPosition.OutsideEnd, LabelPosition.Center];
+
+function getLabelBox(bar: LabelBox, labelWidth: number, labelHeight: number, position: LabelPosition): LabelBox {
+    let y: number;
+    switch (position) {
+        case LabelPosition.OutsideEnd:
+            y = bar.y - labelHeight - LabelPadding;
+            break;
+        case LabelPosition.Center:
+            y = bar.y + (bar.height - labelHeight) / 2;
+            break;
+        default:
+            y = bar.y + LabelPadding;
+    }
+
+    return {
+        x: bar.x + (bar.width - labelWidth) / 2,
+        y,
+        width: labelWidth,
+        height: labelHeight
+    };
+}
+
+function fits(bar: LabelBox, box: LabelBox, position: LabelPosition, plotTop: number): boolean {
+    if (box.width > bar.width) {
+        return false;
+    }
+
+    if (position === LabelPosition.OutsideEnd) {
+        return box.y >= plotTop;
+    }
+
+    return box.height + 2 * LabelPadding <= bar.height;
+}
+
+function collides(box: LabelBox, lineExtent: [number, number]): boolean {
+    return lineExtent !== undefined
+        && lineExtent[1] >= box.y - LabelPadding
+        && lineExtent[0] <= box.y + box.height + LabelPadding;
+}
+
+function getCurvePoint(segment: CurveSegment, t: number): [number, number] {
+    const u: number = 1 - t;
+    const weights: number[] = [u * u * u, 3 * u * u * t, 3 * u * t * t, t * t * t];
+    const sum = (axis: number): number => segment.reduce(
+        (total: number, point: [number, number], i: number) => total + weights[i] * point[axis], 0);
+
+    return [sum(0), sum(1)];
+}
+
+/**
+ * Returns the pieces d3 draws for a line through the given points with the given curve.
+ */
+function getCurveSegments(points: [number, number][], curve: d3.CurveFactory): CurveSegment[] {
+    const segments: CurveSegment[] = [];
+    let current: [number, number];
+    const context = {
+        moveTo: (x: number, y: number) => {
+            current = [x, y];
+        },
+        lineTo: (x: number, y: number) => {
+            segments.push([current, current, [x, y], [x, y]]);
+            current = [x, y];
+        },
+        bezierCurveTo: (x1: number, y1: number, x2: number, y2: number, x: number, y: number) => {
+            segments.push([current, [x1, y1], [x2, y2], [x, y]]);
+            current = [x, y];
+        },
+        closePath: () => undefined
+    };
+
+    d3.line().curve(curve).context(<CanvasRenderingContext2D><unknown>context)(points);
+    return segments;
+}
+
+/**
+ * Returns the lowest and highest y of a line over a horizontal range, drawn through the
+ * given points with the given curve, so labels are tested against the line as it is
+ * drawn, steps and smoothing included. Returns undefined where there is no line.
+ *
+ * @function
+ * @param {Array} points                 - Points the line is drawn through, left to right.
+ * @param {d3.CurveFactory} curve        - Curve the line is drawn with.
+ * @param {number} fromX                 - Left edge of the range.
+ * @param {number} toX                   - Right edge of the range.
+ */
+export function getLineExtent(
+    points: [number, number][],
+    curve: d3.CurveFactory,
+    fromX: number,
+    toX: number
+): [number, number] | undefined {
+    const ys: number[] = [];
+
+    getCurveSegments(points, curve).forEach((segment: CurveSegment) => {
+        // x grows along every piece these curves draw, so the range edges are found by bisection
+        const findX = (x: number): number => {
+            let low = 0;
+            let high = 1;
+            while (high - low > 1e-6) {
+                const t: number = (low + high) / 2;
+                [low, high] = getCurvePoint(segment, t)[0] < x ? [t, high] : [low, t];
+            }
+            return low;
+        };
+        const startX: number = segment[0][0];
+        const endX: number = segment[3][0];
+        if (endX < fromX || startX > toX) {
+            return;
+        }
+
+        const fromT: number = startX < fromX ? findX(fromX) : 0;
+        const toT: number = endX > toX ? findX(toX) : 1;
+        for (let i = 0; i <= CurveSamples; i++) {
+            ys.push(getCurvePoint(segment, fromT + (toT - fromT) * i / CurveSamples)[1]);
+        }
+    });
+
+    return ys.length ? [Math.min(...ys), Math.max(...ys)] : undefined;
+}
+
+/**
+ * Places a label on a bar. The preferred position is tried first, then the remaining ones.
+ * A position is rejected when the label does not fit the bar (or the plot, for labels outside
+ * the bar) or when the cumulative line passes through the label. Returns null if no position works.
+ *
+ * @function
+ * @param {LabelBox} bar                 - Rectangle of the bar.
+ * @param {number} labelWidth            - Measured width of the label text.
+ * @param {number} labelHeight           - Measured height of the label text.
+ * @param {LabelPosition} preferred      - Position chosen in the formatting pane.
+ * @param {number} plotTop               - Top edge of the plot area.
+ * @param {Array} lineExtent             - Lowest and highest y of the cumulative line over the bar, if drawn.
+ */
+export function placeLabel(
+    bar: LabelBox,
+    labelWidth: number,
+    labelHeight: number,
+    preferred: LabelPosition,
+    plotTop: number,
+    lineExtent?: [number, number]
+): LabelBox | null {
+    const positions: LabelPosition[] = [preferred].concat(AllPositions.filter(position => position !== preferred));
+
+    for (const position of positions) {
+        const box: LabelBox = getLabelBox(bar, labelWidth, labelHeight, position);
+        if (fits(bar, box, position, plotTop) && !collides(box, lineExtent)) {
+            return box;
+        }
+    }
+
+    return null;
+}
@@ -0,0 +1,106 @@
+import powerbiVisualsApi from "powerbi-visuals-api";
+import powerbi = powerbiVisualsApi;
+
+import DataViewCategoryColumn = powerbi.DataViewCategoryColumn;
+import DataViewMetadata = powerbi.DataViewMetadata;
+import DrillType = powerbi.DrillType;
+
+export const DrillRoleName: string = "category";
+
+/**
+ * One step of the drill path shown in the breadcrumbs.
+ *
+ * @interface
+ * @property {string} queryName   - Query name of the hierarchy level the category was drilled from.
+ * @property {string} levelName   - Display name of that level.
+ * @property {string} label       - Category that was drilled into.
+ */
+export interface DrillPathItem {
+    queryName: string;
+    levelName: string;
+    label: string;
+}
+
+const CategoryPathSeparator: string = " / ";
+
+/**
+ * Returns the category label of a data point. When the hierarchy is expanded, every level
+ * down to the current one is part of the label so that children of different parents
+ * with the same name stay apart.
+ *
+ * @function
+ * @param {DataViewCategoryColumn[]} categories - Category columns, one per expanded level.
+ * @param {number} index                        - Index of the data point.
+ */
+export function getCategoryLabel(categories: DataViewCategoryColumn[], index: number): string {
+    return categories
+        .map((column: DataViewCategoryColumn) => `${column.values[index]}`)
+        .join(CategoryPathSeparator);
+}
+
+/**
+ * Returns the columns of the category hierarchy, leaving out other grouping columns
+ * such as the Small multiples field.
+ *
+ * @function
+ * @param {DataViewCategoryColumn[]} categories - Category columns of the data view.
+ */
+export function getHierarchyColumns(categories: DataViewCategoryColumn[]): DataViewCategoryColumn[] {
+    return categories.filter((column: DataViewCategoryColumn) => column.source.roles?.[DrillRoleName]);
+}
+
+/**
+ * Returns the innermost category column, the level the bars are drawn for.
+ *
+ * @function
+ * @param {DataViewCategoryColumn[]} categories - Category columns, one per expanded level.
+ */
+export function getLeafCategory(categories: DataViewCategoryColumn[]): DataViewCategoryColumn {
+    return categories[categories.length - 1];
+}
+
+/**
+ * Returns whether the host currently allows the given drill operation on the category role.
+ *
+ * @function
+ * @param {DataViewMetadata} metadata - Metadata of the data view.
+ * @param {DrillType} drillType       - Drill operation.
+ */
+export function canDrill(metadata: DataViewMetadata, drillType: DrillType): boolean {
+    const dataRoles = metadata?.dataRoles;
+    if (!dataRoles || dataRoles.isDrillDisabled) {
+        return false;
+    }
+
+    return (dataRoles.drillableRoles?.[DrillRoleName] || []).indexOf(drillType) !== -1;
+}
+
+/**
+ * Brings the drill path in line with the level that is now displayed. Drilling up to
+ * a level removes the steps taken from it; drilling down on a data point appends the
+ * category the host drilled into. The host filters the data to that category, so the
+ * Pareto is recomputed within the parent's scope.
+ *
+ * @function
+ * @param {DrillPathItem[]} path        - Drill path of the previous update.
+ * @param {string} currentLevel         - Query name of the level displayed now.
+ * @param {boolean} isExpanded          - Whether more than one level is displayed.
+ * @param {DrillPathItem} pendingDrill  - Category of the previous level the host drilled into, if any.
+ */
+export function updateDrillPath(
+    path: DrillPathItem[],
+    currentLevel: string,
+    isExpanded: boolean,
+    pendingDrill?: DrillPathItem
+): DrillPathItem[] {
+    const levelIndex: number = path.map((item: DrillPathItem) => item.queryName).indexOf(currentLevel);
+    if (levelIndex !== -1) {
+        return path.slice(0, levelIndex);
+    }
+
+    if (pendingDrill && !isExpanded && pendingDrill.queryName !== currentLevel) {
+        return path.concat(pendingDrill);
+    }
+
+    return path;
+}
@@ -0,0 +1,62 @@
+export const enum FocusRow {
+    Bars = "Bars",
+    Markers = "Markers"
+}
+
+/**
+ * Position of the keyboard focus inside a panel: the category and whether its bar or
+ * its cumulative marker has focus.
+ *
+ * @interface
+ * @property {number} index  - Index of the category in display order.
+ * @property {FocusRow} row  - Row of elements the focus is in.
+ */
+export interface FocusPosition {
+    index: number;
+    row: FocusRow;
+}
+
+/**
+ * Returns where the focus moves for a navigation key, undefined when the key does not
+ * move it. Left and right walk the categories, Home and End jump to the ends, and up
+ * and down switch between a bar and its marker when markers are drawn.
+ *
+ * @function
+ * @param {string} key               - Value of KeyboardEvent.key.
+ * @param {FocusPosition} position   - Element that has focus now.
+ * @param {number} count             - Number of categories in the panel.
+ * @param {boolean} hasMarkers       - Whether the cumulative markers are drawn.
+ */
+export function getNextFocusPosition(
+    key: string,
+    position: FocusPosition,
+    count: number,
+    hasMarkers: boolean
+): FocusPosition | undefined {
+    switch (key) {
+        case "ArrowRight":
+            return { index: Math.min(count - 1, position.index + 1), row: position.row };
+        case "ArrowLeft":
+            return { index: Math.max(0, position.index - 1), row: position.row };
+        case "Home":
+            return { index: 0, row: position.row };
+        case "End":
+            return { index: count - 1, row: position.row };
+        case "ArrowUp":
+            return hasMarkers ? { index: position.index, row: FocusRow.Markers } : undefined;
+        case "ArrowDown":
+            return { index: position.index, row: FocusRow.Bars };
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Returns whether a key selects the focused element.
+ *
+ * @function
+ * @param {string} key - Value of KeyboardEvent.key.
+ */
+export function isSelectionKey(key: string): boolean {
+    return key === "Enter" || key === " ";
+}
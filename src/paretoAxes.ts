@@ -0,0 +1,80 @@
+import { interfaces, valueFormatter } from "powerbi-visuals-utils-formattingutils";
+
+import { AxisCardSettings } from "./barChartSettingsModel";
+import { BarChartDataPoint } from "./paretoChart";
+
+import IValueFormatter = valueFormatter.IValueFormatter;
+import TextProperties = interfaces.TextProperties;
+
+/**
+ * Returns the text properties used to draw and measure the labels of an axis, or of
+ * any other card with the same font control such as the legend.
+ *
+ * @function
+ * @param {AxisCardSettings} axis - Formatting card of the axis.
+ */
+export function getAxisTextProperties(axis: Pick<AxisCardSettings, "font">): TextProperties {
+    return {
+        fontFamily: axis.font.fontFamily.value,
+        fontSize: `${axis.font.fontSize.value}px`,
+        fontWeight: axis.font.bold.value ? "bold" : "normal",
+        fontStyle: axis.font.italic.value ? "italic" : "normal"
+    };
+}
+
+/**
+ * Returns the tick count requested for an axis, undefined to let d3 choose.
+ *
+ * @function
+ * @param {AxisCardSettings} axis - Formatting card of the axis.
+ */
+export function getTickCount(axis: AxisCardSettings): number | undefined {
+    return axis.tickCount.value > 0 ? axis.tickCount.value : undefined;
+}
+
+/**
+ * Returns the value axis domain, from 0 to the total unless the user overrode the bounds.
+ *
+ * @function
+ * @param {number} total      - Sum of all values, the top of the cumulative line.
+ * @param {number} start      - Minimum set in the formatting pane, if any.
+ * @param {number} end        - Maximum set in the formatting pane, if any.
+ */
+export function getValueDomain(total: number, start: number, end: number): [number, number] {
+    const hasStart: boolean = typeof start === "number" && isFinite(start);
+    const hasEnd: boolean = typeof end === "number" && isFinite(end);
+
+    return [hasStart ? start : 0, hasEnd ? end : total];
+}
+
+/**
+ * Returns the cumulative percent axis domain. "Fit" starts the axis at the first
+ * cumulative value rounded down to ten percent instead of at zero.
+ *
+ * @function
+ * @param {BarChartDataPoint[]} dataPoints - Ordered data points with cumulative shares applied.
+ * @param {string} range                   - "Full" or "Fit".
+ */
+export function getPercentDomain(dataPoints: BarChartDataPoint[], range: string): [number, number] {
+    if (range !== "Fit" || !dataPoints.length) {
+        return [0, 100];
+    }
+
+    const first: number = Math.min(...dataPoints.map(dataPoint => dataPoint.cumulative));
+    return [Math.max(0, Math.floor(first / 10) * 10), 100];
+}
+
+/**
+ * Creates a formatter for numeric tick labels with the chosen display units.
+ *
+ * @function
+ * @param {string} format        - Format string of the measure.
+ * @param {number} displayUnits  - Display units, 0 for auto.
+ * @param {number} maxValue      - Largest value shown, used when units are auto.
+ */
+export function createTickFormatter(format: string, displayUnits: number, maxValue: number): IValueFormatter {
+    return valueFormatter.create({
+        format,
+        value: displayUnits || maxValue
+    });
+}
@@ -0,0 +1,195 @@
+import * as d3 from "d3";
+
+/**
+ * A bar, stack segment or cumulative marker drawn on a canvas, in plot coordinates.
+ * Markers are drawn centered in their box.
+ *
+ * @interface
+ * @property {T} datum                  - Data point the mark is drawn for.
+ * @property {number} x                 - Left edge of the box.
+ * @property {number} y                 - Top edge of the box.
+ * @property {number} width             - Width of the box.
+ * @property {number} height            - Height of the box.
+ * @property {string} fill              - Fill color.
+ * @property {string} stroke            - Outline color.
+ * @property {number} strokeWidth       - Outline width, no outline when 0.
+ * @property {number} opacity           - Fill and outline opacity.
+ * @property {string} strokeDasharray   - Outline dash pattern, solid when empty.
+ */
+export interface CanvasMark<T> {
+    datum: T;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    fill: string;
+    stroke: string;
+    strokeWidth: number;
+    opacity: number;
+    strokeDasharray?: string;
+}
+
+/**
+ * Sizes the canvas to the plot area, scaled by the device pixel ratio so the marks stay
+ * sharp, and returns its cleared drawing context in plot coordinates.
+ *
+ * @function
+ * @param {HTMLCanvasElement} canvas   - Canvas the marks are drawn on.
+ * @param {number} width               - Plot width in CSS pixels.
+ * @param {number} height              - Plot height in CSS pixels.
+ * @param {number} pixelRatio          - Device pixels per CSS pixel.
+ */
+export function resetCanvas(canvas: HTMLCanvasElement, width: number, height: number, pixelRatio: number): CanvasRenderingContext2D {
+    const canvasWidth: number = Math.max(0, Math.round(width * pixelRatio));
+    const canvasHeight: number = Math.max(0, Math.round(height * pixelRatio));
+    if (canvas.width !== canvasWidth || canvas.height !== canvasHeight) {
+        canvas.width = canvasWidth;
+        canvas.height = canvasHeight;
+    }
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${height}px`;
+
+    const context: CanvasRenderingContext2D = canvas.getContext("2d");
+    context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    context.clearRect(0, 0, width, height);
+
+    return context;
+}
+
+/**
+ * Returns the dash pattern of an SVG stroke-dasharray value, empty for a solid line.
+ *
+ * @function
+ * @param {string} dasharray - Value of stroke-dasharray, such as "3,3".
+ */
+function parseDasharray(dasharray: string): number[] {
+    return (dasharray || "")
+        .split(/[\s,]+/)
+        .filter((dash: string) => dash !== "" && dash !== "none")
+        .map(Number);
+}
+
+/**
+ * Applies the outline of a mark to the context and returns whether it has one.
+ *
+ * @function
+ * @param {CanvasRenderingContext2D} context  - Drawing context.
+ * @param {CanvasMark} mark                   - Mark about to be outlined.
+ */
+function applyStroke<T>(context: CanvasRenderingContext2D, mark: CanvasMark<T>): boolean {
+    const hasStroke: boolean = mark.strokeWidth > 0 && !!mark.stroke && mark.stroke !== "none";
+    if (hasStroke) {
+        context.strokeStyle = mark.stroke;
+        context.lineWidth = mark.strokeWidth;
+        context.setLineDash(parseDasharray(mark.strokeDasharray));
+    }
+
+    return hasStroke;
+}
+
+/**
+ * Draws bars or stack segments in order, the later ones on top.
+ *
+ * @function
+ * @param {CanvasRenderingContext2D} context  - Drawing context in plot coordinates.
+ * @param {CanvasMark[]} marks                - Rectangles to draw.
+ */
+export function drawRects<T>(context: CanvasRenderingContext2D, marks: CanvasMark<T>[]) {
+    marks.forEach((mark: CanvasMark<T>) => {
+        context.globalAlpha = mark.opacity;
+        if (mark.fill && mark.fill !== "none") {
+            context.fillStyle = mark.fill;
+            context.fillRect(mark.x, mark.y, mark.width, mark.height);
+        }
+        if (applyStroke(context, mark)) {
+            context.strokeRect(mark.x, mark.y, mark.width, mark.height);
+        }
+    });
+    context.globalAlpha = 1;
+}
+
+/**
+ * Draws cumulative markers of one shape, each centered in its box.
+ *
+ * @function
+ * @param {CanvasRenderingContext2D} context  - Drawing context in plot coordinates.
+ * @param {CanvasMark[]} marks                - Markers to draw.
+ * @param {d3.SymbolType} symbolType          - Shape of the markers.
+ * @param {number} size                       - Area of a marker in square pixels.
+ */
+export function drawSymbols<T>(
+    context: CanvasRenderingContext2D,
+    marks: CanvasMark<T>[],
+    symbolType: d3.SymbolType,
+    size: number
+) {
+    const symbol = d3.symbol().type(symbolType).size(size).context(context);
+
+    marks.forEach((mark: CanvasMark<T>) => {
+        context.save();
+        context.translate(mark.x + mark.width / 2, mark.y + mark.height / 2);
+        context.globalAlpha = mark.opacity;
+        context.beginPath();
+        symbol();
+        if (mark.fill && mark.fill !== "none") {
+            context.fillStyle = mark.fill;
+            context.fill();
+        }
+        if (applyStroke(context, mark)) {
+            context.stroke();
+        }
+        context.restore();
+    });
+}
+
+/**
+ * Outlines the box of the mark that has the keyboard focus.
+ *
+ * @function
+ * @param {CanvasRenderingContext2D} context  - Drawing context in plot coordinates.
+ * @param {CanvasMark} mark                   - Focused mark.
+ * @param {string} color                      - Color of the focus outline.
+ */
+export function drawFocus<T>(context: CanvasRenderingContext2D, mark: CanvasMark<T>, color: string) {
+    context.globalAlpha = 1;
+    context.strokeStyle = color;
+    context.lineWidth = 2;
+    context.setLineDash([]);
+    context.strokeRect(mark.x - 1, mark.y - 1, mark.width + 2, mark.height + 2);
+}
+
+/**
+ * Returns the mark under the point, the topmost one when several overlap, undefined when
+ * there is none. Boxes are widened to the tolerance so bars narrower than a pixel can be
+ * hit; of the widened boxes that hold the point, the one centered closest to it wins.
+ *
+ * @function
+ * @param {CanvasMark[]} marks  - Marks in drawing order.
+ * @param {number} x            - Horizontal plot coordinate of the pointer.
+ * @param {number} y            - Vertical plot coordinate of the pointer.
+ * @param {number} tolerance    - Smallest width and height a box is hit-tested with.
+ */
+export function findMarkAt<T>(marks: CanvasMark<T>[], x: number, y: number, tolerance: number): CanvasMark<T> | undefined {
+    let nearest: CanvasMark<T>;
+    let nearestDistance: number = Infinity;
+
+    for (let i = marks.length - 1; i >= 0; i--) {
+        const mark: CanvasMark<T> = marks[i];
+        if (x >= mark.x && x <= mark.x + mark.width && y >= mark.y && y <= mark.y + mark.height) {
+            return mark;
+        }
+
+        const padX: number = Math.max(0, tolerance - mark.width) / 2;
+        const padY: number = Math.max(0, tolerance - mark.height) / 2;
+        if (x >= mark.x - padX && x <= mark.x + mark.width + padX
+            && y >= mark.y - padY && y <= mark.y + mark.height + padY) {
+            const distance: number = Math.hypot(x - mark.x - mark.width / 2, y - mark.y - mark.height / 2);
+            if (distance < nearestDistance) {
+                nearest = mark;
+                nearestDistance = distance;
+            }
+        }
+    }
+
+    return nearest;
+}
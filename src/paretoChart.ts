@@ -6,26 +6,42 @@ import {
 } from "d3-selection";
 import {
     scaleBand,
+    ScaleBand,
     scaleLinear,
     ScaleLinear
 } from "d3-scale";
 
 import * as d3 from "d3";
 
-import { axisBottom, axisLeft, axisRight } from "d3-axis";
+import { Axis, axisBottom, axisLeft, axisRight } from "d3-axis";
 
 import powerbiVisualsApi from "powerbi-visuals-api";
 import { createTooltipServiceWrapper, ITooltipServiceWrapper } from "powerbi-visuals-utils-tooltiputils";
 import { FormattingSettingsService } from "powerbi-visuals-utils-formattingmodel";
-import { textMeasurementService, valueFormatter } from "powerbi-visuals-utils-formattingutils";
+import { interfaces, textMeasurementService, valueFormatter } from "powerbi-visuals-utils-formattingutils";
 import {
     HtmlSubSelectableClass, HtmlSubSelectionHelper, SubSelectableDirectEdit as SubSelectableDirectEditAttr,
     SubSelectableDisplayNameAttribute, SubSelectableObjectNameAttribute, SubSelectableTypeAttribute
 } from 'powerbi-visuals-utils-onobjectutils';
 
-import { BarChartSettingsModel } from "./barChartSettingsModel";
-import { getLocalizedString } from "./localization/localizationHelper"
-import { getValue, getCategoricalObjectValue } from "./objectEnumerationUtility";
+import { AnalyticsLineCardSettings, AxisCardSettings, BarChartSettingsModel } from "./barChartSettingsModel";
+import { getDashArray } from "./analyticsLines";
+import { getLocalizedString, isRightToLeft } from "./localization/localizationHelper"
+import { getCategoryKey, getDataPointSelectionIds, OtherBucketKey } from "./paretoOtherBucket";
+import { getLineExtent, LabelBox, LabelContent, LabelPosition, placeLabel } from "./dataLabels";
+import { ChartLayout, computeLayout, LayoutInput, OuterPadding } from "./chartLayout";
+import { AxisLabelMeasurement, AxisLabelMode, getAxisLabelAreaHeight, resolveAxisLabelMode } from "./axisLabels";
+import { createTickFormatter, getAxisTextProperties, getPercentDomain, getTickCount, getValueDomain } from "./paretoAxes";
+import { canDrill, DrillPathItem, DrillRoleName, getHierarchyColumns, getLeafCategory, updateDrillPath } from "./drilldown";
+import { computeGrid, getCellPosition, GridLayout } from "./smallMultiples";
+import { ExcludedValue, InvalidReason } from "./valuePolicy";
+import { FocusPosition, FocusRow, getNextFocusPosition, isSelectionKey } from "./keyboardNavigation";
+import { SelectionStyle, ThemeService } from "./themeService";
+import { buildViewModel, ParetoPanelModel, ParetoViewModel } from "./paretoViewModel";
+import { createExportRows, ExportContext, ExportFormat, toCsv, toJson } from "./paretoExport";
+import { CanvasMark, drawFocus, drawRects, drawSymbols, findMarkAt, resetCanvas } from "./paretoCanvas";
+import { canAnimate, getEasing, interpolatePoints } from "./transitions";
+import { ParetoZone } from "./paretoThreshold";
 
 import "./../style/visual.less";
 
@@ -36,14 +52,15 @@ type Selection<T1, T2 = T1> = d3Selection<any, T1, any, T2>;
 // powerbi.visuals
 import CustomVisualSubSelection = powerbi.visuals.CustomVisualSubSelection;
 import DataViewCategoryColumn = powerbi.DataViewCategoryColumn;
-import DataViewObjects = powerbi.DataViewObjects;
-import Fill = powerbi.Fill;
-import ISandboxExtendedColorPalette = powerbi.extensibility.ISandboxExtendedColorPalette;
+import DataViewMetadata = powerbi.DataViewMetadata;
+import DrillType = powerbi.DrillType;
 import ISelectionId = powerbi.visuals.ISelectionId;
+import ILocalizationManager = powerbi.extensibility.ILocalizationManager;
 import ISelectionManager = powerbi.extensibility.ISelectionManager;
 import IVisual = powerbi.extensibility.IVisual;
 import IVisualHost = powerbi.extensibility.visual.IVisualHost;
 import PrimitiveValue = powerbi.PrimitiveValue;
+import PrivilegeStatus = powerbi.PrivilegeStatus;
 import SubSelectableDirectEdit = powerbi.visuals.SubSelectableDirectEdit;
 import SubSelectableDirectEditStyle = powerbi.visuals.SubSelectableDirectEditStyle;
 import SubSelectionStyles = powerbi.visuals.SubSelectionStyles;
@@ -54,6 +71,8 @@ import VisualTooltipDataItem = powerbi.extensibility.VisualTooltipDataItem;
 import VisualUpdateOptions = powerbi.extensibility.visual.VisualUpdateOptions;
 import SubSelectionStylesType = powerbi.visuals.SubSelectionStylesType;
 import FormattingId = powerbi.visuals.FormattingId;
+import IValueFormatter = valueFormatter.IValueFormatter;
+import TextProperties = interfaces.TextProperties;
 
 
 /**
@@ -67,6 +86,20 @@ import FormattingId = powerbi.visuals.FormattingId;
  * @property {number} strokeWidth       - Stroke width for data point column.
  * @property {ISelectionId} selectionId - Id assigned to data point for cross filtering
  *                                        and visual interaction.
+ * @property {ISelectionId} categorySelectionId - Id of the category alone, without the small multiple, its color is saved on.
+ * @property {BarChartDataPoint[]} otherMembers - Data points merged into the "All other" bucket.
+ * @property {boolean} isVitalFew       - Whether the data point falls before the vital few threshold.
+ * @property {ParetoZone} zone          - A, B or C class of the data point, when bars are colored by Pareto zone.
+ * @property {number} rank              - 1-based position of the data point in the Pareto order.
+ * @property {number} share             - Percentage of the total the data point makes up.
+ * @property {number} runningTotal      - Sum of the values up to and including the data point.
+ * @property {TooltipValue[]} tooltipValues - Values of the measures bound to the Tooltips role.
+ * @property {BarChartDataPoint[]} segments - Stacked parts of the bar, one per series, when a Series field is bound.
+ * @property {string} series            - Series a stack segment belongs to.
+ * @property {ISelectionId} seriesSelectionId - Id of the series alone, the color of a stack segment is saved on.
+ * @property {number} stackStart        - Sum of the segments drawn below a stack segment.
+ * @property {number} measureIndex      - Measure a bar of a cluster stands for, when several measures are bound.
+ * @property {string} panel             - Value of the Small multiples field the data point is drawn in.
  */
 export interface BarChartDataPoint {
     cumulative?: number;
@@ -76,8 +109,66 @@ export interface BarChartDataPoint {
     strokeColor: string;
     strokeWidth: number;
     selectionId: ISelectionId;
+    categorySelectionId?: ISelectionId;
+    seriesSelectionId?: ISelectionId;
     index: number;
     format?: string;
+    otherMembers?: BarChartDataPoint[];
+    isVitalFew?: boolean;
+    zone?: ParetoZone;
+    rank?: number;
+    share?: number;
+    runningTotal?: number;
+    tooltipValues?: TooltipValue[];
+    segments?: BarChartDataPoint[];
+    series?: string;
+    stackStart?: number;
+    measureIndex?: number;
+    panel?: string;
+}
+
+/**
+ * Interface for a series the bars are stacked by.
+ *
+ * @interface
+ * @property {string} name              - Value of the Series field.
+ * @property {string} color             - Color of the series' stack segments.
+ * @property {ISelectionId} selectionId - Id of the series, used by the legend and the color slices.
+ */
+export interface BarChartSeries {
+    name: string;
+    color: string;
+    selectionId: ISelectionId;
+}
+
+/**
+ * Interface for one of several measures compared side by side.
+ *
+ * @interface
+ * @property {string} name      - Display name of the measure.
+ * @property {string} queryName - Query name of the measure, used to select its formatting.
+ * @property {string} color     - Color of the measure's bars and cumulative line.
+ * @property {string} format    - Format string of the measure.
+ */
+export interface BarChartMeasure {
+    name: string;
+    queryName: string;
+    color: string;
+    format: string;
+}
+
+/**
+ * Value of a measure bound to the Tooltips role for one category.
+ *
+ * @interface
+ * @property {string} displayName  - Display name of the tooltip measure.
+ * @property {PrimitiveValue} value - Value of the measure.
+ * @property {string} format       - Format string of the measure column.
+ */
+export interface TooltipValue {
+    displayName: string;
+    value: PrimitiveValue;
+    format: string;
 }
 
 interface References {
@@ -94,12 +185,21 @@ interface References {
     fontSize?: FormattingId;
     position?: FormattingId;
     textProperty?: FormattingId;
+    strokeWidth?: FormattingId;
+    dashStyle?: FormattingId;
+    showMarkers?: FormattingId;
+    showDataLabels?: FormattingId;
 }
 
 const enum BarChartObjectNames {
     ArcElement = 'arcElement',
     ColorSelector = 'colorSelector',
-    EnableAxis = 'enableAxis',
+    Measures = 'measures',
+    AllOther = 'allOther',
+    CumulativeLine = 'cumulativeLine',
+    CategoryAxis = 'categoryAxis',
+    ValueAxis = 'valueAxis',
+    PercentAxis = 'percentAxis',
     DirectEdit = 'directEdit'
 }
 
@@ -120,19 +220,88 @@ const colorSelectorReferences: References = {
     }
 };
 
-const enableAxisReferences: References = {
-    cardUid: 'Visual-enableAxis-card',
-    groupUid: 'enableAxis-group',
+const measuresReferences: References = {
+    cardUid: 'Visual-measures-card',
+    groupUid: 'measures-group',
     fill: {
-        objectName: BarChartObjectNames.EnableAxis,
+        objectName: BarChartObjectNames.Measures,
+        propertyName: 'fill'
+    }
+};
+
+const allOtherReferences: References = {
+    cardUid: 'Visual-allOther-card',
+    groupUid: 'allOther-group',
+    fill: {
+        objectName: BarChartObjectNames.AllOther,
         propertyName: 'fill'
     },
     show: {
-        objectName: BarChartObjectNames.EnableAxis,
+        objectName: BarChartObjectNames.AllOther,
         propertyName: 'show'
     }
 };
 
+const cumulativeLineReferences: References = {
+    cardUid: 'Visual-cumulativeLine-card',
+    groupUid: 'cumulativeLine-group',
+    fill: {
+        objectName: BarChartObjectNames.CumulativeLine,
+        propertyName: 'fill'
+    },
+    strokeWidth: {
+        objectName: BarChartObjectNames.CumulativeLine,
+        propertyName: 'strokeWidth'
+    },
+    dashStyle: {
+        objectName: BarChartObjectNames.CumulativeLine,
+        propertyName: 'dashStyle'
+    },
+    showMarkers: {
+        objectName: BarChartObjectNames.CumulativeLine,
+        propertyName: 'showMarkers'
+    },
+    showDataLabels: {
+        objectName: BarChartObjectNames.CumulativeLine,
+        propertyName: 'showDataLabels'
+    }
+};
+
+function getAxisReferences(objectName: BarChartObjectNames): References {
+    return {
+        cardUid: `Visual-${objectName}-card`,
+        groupUid: `${objectName}-group`,
+        fill: {
+            objectName,
+            propertyName: 'fill'
+        },
+        show: {
+            objectName,
+            propertyName: 'show'
+        },
+        fontFamily: {
+            objectName,
+            propertyName: 'fontFamily'
+        },
+        fontSize: {
+            objectName,
+            propertyName: 'fontSize'
+        },
+        bold: {
+            objectName,
+            propertyName: 'bold'
+        },
+        italic: {
+            objectName,
+            propertyName: 'italic'
+        },
+        underline: {
+            objectName,
+            propertyName: 'underline'
+        }
+    };
+}
+
 const directEditReferences: References = {
     cardUid: 'Visual-directEdit-card',
     groupUid: 'directEdit-group',
@@ -175,148 +344,152 @@ const directEditReferences: References = {
 };
 
 /**
- * Function that converts queried data into a view model that will be used by the visual.
+ * Elements of one Pareto panel, drawn from the panel's computed data.
  *
- * @function
- * @param {VisualUpdateOptions} options - Contains references to the size of the container
- *                                        and the dataView which contains all the data
- *                                        the visual had queried.
- * @param {IVisualHost} host            - Contains references to the host which contains services
+ * @interface
  */
-function createSelectorDataPoints(options: VisualUpdateOptions, host: IVisualHost): BarChartDataPoint[] {
-    const barChartDataPoints: BarChartDataPoint[] = []
-    const dataViews = options.dataViews;
-
-    if (!dataViews
-        || !dataViews[0]
-        || !dataViews[0].categorical
-        || !dataViews[0].categorical.categories
-        || !dataViews[0].categorical.categories[0].source
-        || !dataViews[0].categorical.values
-    ) {
-        return barChartDataPoints;
-    }
-
-    const categorical = dataViews[0].categorical;
-    const category = categorical.categories[0];
-    const dataValue = categorical.values[0];
-
-    //let dataMax: number = 0;
-
-    const colorPalette: ISandboxExtendedColorPalette = host.colorPalette;
-    //const objects = dataViews[0].metadata.objects;
-
-    const strokeColor: string = getColumnStrokeColor(colorPalette);
-
-    const strokeWidth: number = getColumnStrokeWidth(colorPalette.isHighContrast);
-
-    for (let i = 0, len = Math.max(category.values.length, dataValue.values.length); i < len; i++) {
-        const color: string = getColumnColorByIndex(category, i, colorPalette);
-
-        const selectionId: ISelectionId = host.createSelectionIdBuilder()
-            .withCategory(category, i)
-            .createSelectionId();
-
-        barChartDataPoints.push({
-            color,
-            strokeColor,
-            strokeWidth,
-            selectionId,
-            value: dataValue.values[i],
-            category: `${category.values[i]}`,
-            index: i,
-            format: dataValue.objects ? <string>dataValue.objects[i].general.formatString : null,
-        });
-    }
-
-    return barChartDataPoints;
+interface ParetoPanel extends ParetoPanelModel {
+    container: Selection<SVGElement>;
+    title: Selection<SVGElement>;
+    plotArea: Selection<SVGElement>;
+    xGridlines: Selection<SVGElement>;
+    yGridlinesLeft: Selection<SVGElement>;
+    yGridlinesRight: Selection<SVGElement>;
+    barContainer: Selection<SVGElement>;
+    segmentContainer: Selection<SVGElement>;
+    xAxis: Selection<SVGElement>;
+    line: Selection<SVGElement>;
+    measureLines: Selection<SVGElement>;
+    circle: Selection<SVGElement>;
+    cumulativeLabels: Selection<SVGElement>;
+    dataLabels: Selection<SVGElement>;
+    tooltip: Selection<SVGElement>;
+    yAxisLeft: Selection<SVGElement>;
+    yAxisRight: Selection<SVGElement>;
+    xAxisTitle: Selection<SVGElement>;
+    yAxisLeftTitle: Selection<SVGElement>;
+    yAxisRightTitle: Selection<SVGElement>;
+    analyticsLines: { [name: string]: Selection<SVGElement> };
+    vitalFew: Selection<SVGElement>;
+    barSelection?: Selection<any>;
+    segmentSelection?: Selection<any>;
+    markerSelection?: Selection<any>;
+    barCanvas: Selection<any>;
+    markerCanvas: Selection<any>;
+    useCanvas: boolean;
+    canvasBars: CanvasMark<BarChartDataPoint>[];
+    canvasSegments: CanvasMark<BarChartDataPoint>[];
+    canvasMarkers: CanvasMark<BarChartDataPoint>[];
+    canvasFocusIndex: number;
+    hoveredMark?: CanvasMark<BarChartDataPoint>;
+    linePoints: [number, number][];
 }
 
-function getColumnColorByIndex(
-    category: DataViewCategoryColumn,
-    index: number,
-    colorPalette: ISandboxExtendedColorPalette,
-): string {
-    if (colorPalette.isHighContrast) {
-        return colorPalette.background.value;
-    }
-
-    const defaultColor: Fill = {
-        solid: {
-            color: colorPalette.getColor(`${category.values[index]}`).value,
-        }
-    };
+/**
+ * A data label that fits next to its bar.
+ *
+ * @interface
+ * @property {string} key         - Category key of the bar, the label is joined by it.
+ * @property {string} text        - Formatted label.
+ * @property {LabelBox} box       - Where the label is drawn.
+ */
+interface PlacedLabel {
+    key: string;
+    text: string;
+    box: LabelBox;
+}
 
-    return getCategoricalObjectValue<Fill>(
-        category,
-        index,
-        'colorSelector',
-        'fill',
-        defaultColor
-    ).solid.color;
+/**
+ * A mark found under the pointer on a canvas panel.
+ *
+ * @interface
+ * @property {CanvasMark} mark            - Bar, segment or marker under the pointer.
+ * @property {Function} getTooltipData    - Returns the tooltip of the mark.
+ */
+interface CanvasTarget {
+    mark: CanvasMark<BarChartDataPoint>;
+    getTooltipData: () => VisualTooltipDataItem[];
 }
 
-function getColumnStrokeColor(colorPalette: ISandboxExtendedColorPalette): string {
-    return colorPalette.isHighContrast
-        ? colorPalette.foreground.value
-        : null;
+function getCurveFactory(interpolation: string): d3.CurveFactory {
+    switch (interpolation) {
+        case "step":
+            return d3.curveStep;
+        case "monotone":
+            return d3.curveMonotoneX;
+        default:
+            return d3.curveLinear;
+    }
 }
 
-function getColumnStrokeWidth(isHighContrast: boolean): number {
-    return isHighContrast
-        ? 2
-        : 0;
+/**
+ * Returns the key a stack segment or clustered bar is joined by: its category and its
+ * series, or its measure.
+ */
+function getSegmentKey(segment: BarChartDataPoint): string {
+    return `${getCategoryKey(segment)}\u0000${segment.measureIndex ?? segment.series}`;
 }
 
-function getAxisTextFillColor(
-    objects: DataViewObjects,
-    colorPalette: ISandboxExtendedColorPalette,
-    defaultColor: string
-): string {
-    if (colorPalette.isHighContrast) {
-        return colorPalette.foreground.value;
-    }
-
-    return getValue<Fill>(
-        objects,
-        "enableAxis",
-        "fill",
-        {
-            solid: {
-                color: defaultColor,
-            }
-        },
-    ).solid.color;
+function getSymbolType(markerShape: string): d3.SymbolType {
+    switch (markerShape) {
+        case "square":
+            return d3.symbolSquare;
+        case "diamond":
+            return d3.symbolDiamond;
+        case "triangle":
+            return d3.symbolTriangle;
+        default:
+            return d3.symbolCircle;
+    }
 }
 
 export class ParetoChart implements IVisual {
-    private averageLine: Selection<SVGElement>;
-    private barContainer: Selection<SVGElement>;
     private barDataPoints: BarChartDataPoint[];
     private element: HTMLElement;
     private formattingSettingsService: FormattingSettingsService;
     private formattingSettings: BarChartSettingsModel;
     private host: IVisualHost;
+    private theme: ThemeService;
     private isLandingPageOn: boolean;
     private LandingPage: Selection<any>;
-    private LandingPageRemoved: boolean;
     private locale: string;
+    private localizationManager: ILocalizationManager;
+    private rightToLeft: boolean;
     private selectionManager: ISelectionManager;
     private svg: Selection<any>;
     private tooltipServiceWrapper: ITooltipServiceWrapper;
-    private xAxis: Selection<SVGElement>;
-    private line: Selection<SVGElement>;
-    private circle: Selection<SVGElement>;
-    private tooltip: Selection<SVGElement>;
-
-    private yAxisLeft: Selection<SVGElement>;
-    private yAxisRight: Selection<SVGElement>;
-
-    private barSelection: Selection<any>;
+    private panelContainer: Selection<SVGElement>;
+    private panels: ParetoPanel[] = [];
+    private panel: ParetoPanel;
+    private legend: Selection<SVGElement>;
+    private viewModel: ParetoViewModel;
 
     private subSelectionHelper: HtmlSubSelectionHelper;
     private formatMode: boolean = false;
+    private topElementsHeight: number = 0;
+    private categoryTickFormat: (category: string) => string;
+    private valueTickFormat: (value: number) => string;
+    private percentTickFormat: (value: number) => string;
+    private xAxisLabelMode: AxisLabelMode;
+    private xAxisLabelMeasurement: AxisLabelMeasurement;
     private directEditElement: Selection<SVGElement>;
+    private breadcrumbElement: Selection<SVGElement>;
+    private valueWarningElement: Selection<SVGElement>;
+    private noDataElement: Selection<SVGElement>;
+    private exportButtonElement: Selection<SVGElement>;
+    private exportPanelElement: Selection<SVGElement>;
+    private isExportPanelOpen: boolean = false;
+    private isDownloadAllowed: boolean = false;
+    private isCopyFailed: boolean = false;
+    private exportFormat: ExportFormat = ExportFormat.Csv;
+    private drillLevel: string;
+    private drillLevelName: string;
+    private drillPath: DrillPathItem[] = [];
+    private pendingDrill: ISelectionId;
+    private isContextMenuOpen: boolean = false;
+    private canDrillDown: boolean = false;
+    private isLoadingMoreData: boolean = false;
+    private transition: d3.Transition<any, unknown, null, undefined>;
     private visualDirectEditSubSelection = JSON.stringify(DirectEdit);
     public visualOnObjectFormatting?: powerbi.extensibility.visual.VisualOnObjectFormatting;
 
@@ -324,15 +497,28 @@ export class ParetoChart implements IVisual {
         xScalePadding: 0.1,
         solidOpacity: 1,
         transparentOpacity: 0.4,
-        margins: {
-            top: 20,
-            right: 2,
-            bottom: 5,
-            left: 30,
-        },
         xAxisFontMultiplier: 0.04,
+        maxOtherTooltipMembers: 10,
+        clusterPadding: 0.05,
+        percentFormat: "0.00%",
+        cumulativeLabelFormat: "0%",
+        cumulativeLabelPadding: 4,
+        fontFamily: "Segoe UI, wf_segoe-ui_normal, helvetica, arial, sans-serif",
+        maxXAxisLabelRatio: 0.3,
+        maxXAxisWrapLines: 3,
+        axisTitlePadding: 4,
+        gridlineColor: "#E1E1E1",
+        legendItemPadding: 12,
+        maxListedExclusions: 10,
+        exportButtonSpace: 28,
+        exportFileName: "pareto",
+        canvasThreshold: 2000,
+        canvasHitTolerance: 4,
+        focusColor: "#252423",
     };
 
+    static AnalyticsLineNames: string[] = ['averageLine', 'medianLine', 'percentileLine', 'constantLine'];
+
     /**
      * Creates instance of BarChart. This method is only called once.
      *
@@ -343,72 +529,227 @@ export class ParetoChart implements IVisual {
      */
     constructor(options: VisualConstructorOptions) {
         this.host = options.host;
+        this.theme = new ThemeService(options.host.colorPalette);
         this.element = options.element;
         this.selectionManager = options.host.createSelectionManager();
         this.locale = options.host.locale;
+        this.localizationManager = options.host.createLocalizationManager();
+        // The HTML around the chart and the legend are mirrored; like the built-in charts,
+        // the plot keeps its orientation so the largest bar stays next to the value axis
+        this.rightToLeft = isRightToLeft(this.locale);
+        this.element.setAttribute("dir", this.rightToLeft ? "rtl" : "ltr");
 
         this.selectionManager.registerOnSelectCallback(() => {
-            this.syncSelectionState(this.barSelection, <ISelectionId[]>this.selectionManager.getSelectionIds());
+            this.syncSelectionState(<ISelectionId[]>this.selectionManager.getSelectionIds());
+        });
+
+        // The host's drill buttons sit in the visual header, outside the element: a click
+        // that the host did not turn into a drill is forgotten once the user heads there.
+        // The context menu is outside too, and keeps its data point until it is closed
+        this.element.addEventListener("mouseenter", () => {
+            this.isContextMenuOpen = false;
+        });
+        this.element.addEventListener("mouseleave", () => {
+            if (!this.isContextMenuOpen) {
+                this.pendingDrill = undefined;
+            }
+        });
+        this.element.addEventListener("focusout", (event: FocusEvent) => {
+            if (!this.isContextMenuOpen && !this.element.contains(<Node>event.relatedTarget)) {
+                this.pendingDrill = undefined;
+            }
         });
 
         this.tooltipServiceWrapper = createTooltipServiceWrapper(this.host.tooltipService, options.element);
 
         //Creating the formatting settings service.
-        const localizationManager = this.host.createLocalizationManager();
-        this.formattingSettingsService = new FormattingSettingsService(localizationManager);
+        this.formattingSettingsService = new FormattingSettingsService(this.localizationManager);
 
         this.subSelectionHelper = HtmlSubSelectionHelper.createHtmlSubselectionHelper({
             hostElement: options.element,
             subSelectionService: options.host.subSelectionService,
             selectionIdCallback: (e) => this.selectionIdCallback(e),
+            subSelectionMetadataCallback: (e) => this.subSelectionMetadataCallback(e),
         });
 
         this.svg = d3Select(options.element)
             .append('svg')
-            .classed('barChart', true).attr('height', options.element.clientHeight - 10);
+            .classed('barChart', true);
+
+        this.panelContainer = this.svg
+            .append('g')
+            .classed('panels', true);
 
-        this.barContainer = this.svg
+        this.legend = this.svg
+            .append('g')
+            .classed('legend', true);
+
+        const directEditDiv = this.creatDirectEditElement();
+        options.element.appendChild(directEditDiv);
+        this.directEditElement = d3Select(directEditDiv);
+
+        const breadcrumbDiv = this.createBreadcrumbElement();
+        options.element.appendChild(breadcrumbDiv);
+        this.breadcrumbElement = d3Select(breadcrumbDiv);
+
+        const valueWarningDiv = this.createValueWarningElement();
+        options.element.appendChild(valueWarningDiv);
+        this.valueWarningElement = d3Select(valueWarningDiv);
+
+        const noDataDiv = this.createNoDataElement();
+        options.element.appendChild(noDataDiv);
+        this.noDataElement = d3Select(noDataDiv);
+
+        const exportButton = this.createExportButtonElement();
+        options.element.appendChild(exportButton);
+        this.exportButtonElement = d3Select(exportButton);
+
+        const exportPanelDiv = this.createExportPanelElement();
+        options.element.appendChild(exportPanelDiv);
+        this.exportPanelElement = d3Select(exportPanelDiv);
+
+        this.visualOnObjectFormatting = {
+            getSubSelectionStyles: (subSelections) => this.getSubSelectionStyles(subSelections),
+            getSubSelectionShortcuts: (subSelections) => this.getSubSelectionShortcuts(subSelections),
+            getSubSelectables: (filter) => this.getSubSelectables(filter)
+        };
+
+        this.handleContextMenu();
+    }
+
+    /**
+     * Creates the elements of one Pareto panel. Without a Small multiples field the visual
+     * draws a single panel.
+     */
+    private createPanel(): ParetoPanel {
+        const container: Selection<SVGElement> = this.panelContainer
+            .append('g')
+            .classed('panel', true)
+            .attr('role', 'listbox')
+            .attr('aria-multiselectable', 'true');
+
+        const title: Selection<SVGElement> = container
+            .append('text')
+            .classed('panelTitle', true);
+
+        const plotArea: Selection<SVGElement> = container
+            .append('g')
+            .classed('plotArea', true);
+
+        const gridlines: Selection<SVGElement> = plotArea
+            .append('g')
+            .classed('gridlines', true);
+
+        const xGridlines: Selection<SVGElement> = gridlines.append('g');
+        const yGridlinesLeft: Selection<SVGElement> = gridlines.append('g');
+        const yGridlinesRight: Selection<SVGElement> = gridlines.append('g');
+
+        const barContainer: Selection<SVGElement> = plotArea
             .append('g')
             .classed('barContainer', true);
 
-        this.xAxis = this.svg
+        const segmentContainer: Selection<SVGElement> = barContainer
+            .append('g')
+            .classed('segmentContainer', true);
+
+        // Past the canvas threshold the bars and segments are drawn here, under the axes
+        const barCanvas: Selection<any> = this.createCanvasLayer(barContainer);
+
+        const xAxis: Selection<SVGElement> = plotArea
             .append('g')
             .classed('xAxis', true);
 
-        this.line = this.svg
+        const line: Selection<SVGElement> = plotArea
             .append('path')
-            .classed('line', true)
-        
-        this.circle = this.svg
-        .append('g')
-        .classed('circle', true);
+            .classed('line', true);
+
+        const measureLines: Selection<SVGElement> = plotArea
+            .append('g')
+            .classed('measureLines', true);
 
-        this.tooltip = this.svg
-        .append('g')
-        .classed('tooltip', true);
+        const circle: Selection<SVGElement> = plotArea
+            .append('g')
+            .classed('circle', true);
+
+        // The markers stay above the cumulative line; the bar canvas handles the pointer
+        const markerCanvas: Selection<any> = this.createCanvasLayer(circle);
 
+        const cumulativeLabels: Selection<SVGElement> = plotArea
+            .append('g')
+            .classed('cumulativeLabels', true);
 
-        this.yAxisLeft = this.barContainer
+        const dataLabels: Selection<SVGElement> = plotArea
+            .append('g')
+            .classed('dataLabels', true);
+
+        const tooltip: Selection<SVGElement> = plotArea
+            .append('g')
+            .classed('tooltip', true);
+
+        const yAxisLeft: Selection<SVGElement> = barContainer
             .append('g')
             .classed('yAxisLeft', true);
 
-        this.yAxisRight = this.svg
+        const yAxisRight: Selection<SVGElement> = plotArea
             .append('g')
             .classed('yAxisRight', true);
 
-        this.initAverageLine();
+        const panel: ParetoPanel = {
+            value: undefined,
+            dataPoints: [],
+            total: 0,
+            measureTotals: [],
+            vitalFewCount: 0,
+            average: undefined,
+            median: undefined,
+            percentile: undefined,
+            container,
+            title,
+            plotArea,
+            xGridlines,
+            yGridlinesLeft,
+            yGridlinesRight,
+            barContainer,
+            segmentContainer,
+            xAxis,
+            line,
+            measureLines,
+            circle,
+            cumulativeLabels,
+            dataLabels,
+            tooltip,
+            yAxisLeft,
+            yAxisRight,
+            xAxisTitle: plotArea.append('text').classed('axisTitle', true),
+            yAxisLeftTitle: plotArea.append('text').classed('axisTitle', true),
+            yAxisRightTitle: plotArea.append('text').classed('axisTitle', true),
+            analyticsLines: {},
+            vitalFew: undefined,
+            barCanvas,
+            markerCanvas,
+            useCanvas: false,
+            canvasBars: [],
+            canvasSegments: [],
+            canvasMarkers: [],
+            canvasFocusIndex: 0,
+            linePoints: []
+        };
 
-        const directEditDiv = this.creatDirectEditElement();
-        // options.element.appendChild(directEditDiv);
-        this.directEditElement = d3Select(directEditDiv);
+        this.initAnalyticsLines(panel);
+        this.initVitalFew(panel);
 
-        this.visualOnObjectFormatting = {
-            getSubSelectionStyles: (subSelections) => this.getSubSelectionStyles(subSelections),
-            getSubSelectionShortcuts: (subSelections) => this.getSubSelectionShortcuts(subSelections),
-            getSubSelectables: (filter) => this.getSubSelectables(filter)
-        };
+        return panel;
+    }
 
-        this.handleContextMenu();
+    /**
+     * Adds a canvas as the first child of the group, wrapped in a foreignObject that is
+     * only shown while the panel is drawn on canvas.
+     */
+    private createCanvasLayer(parent: Selection<SVGElement>): Selection<any> {
+        return parent
+            .insert('foreignObject', ':first-child')
+            .classed('canvasLayer', true)
+            .append('xhtml:canvas');
     }
 
     /**
@@ -420,196 +761,1351 @@ export class ParetoChart implements IVisual {
      *                                        the visual had queried.
      */
     public update(options: VisualUpdateOptions) {
-        // Turn on landing page in capabilities and remove comment to turn on landing page!
-        // this.HandleLandingPage(options);
+        this.theme.applyToElement(this.element);
+        if (this.handleLandingPage(options)) {
+            return;
+        }
+        if (options.type & powerbi.VisualUpdateType.Data) {
+            this.requestMoreData(options.dataViews?.[0]);
+        }
         this.formattingSettings = this.formattingSettingsService.populateFormattingSettingsModel(BarChartSettingsModel, options.dataViews?.[0]);
-        this.barDataPoints = createSelectorDataPoints(options, this.host);
-        this.formattingSettings.populateColorSelector(this.barDataPoints);
+        this.formattingSettings.localize(this.localizationManager);
+        this.viewModel = buildViewModel(options.dataViews?.[0], this.formattingSettings, this.host, this.theme);
+        this.formattingSettings.populateMeasures(this.viewModel.measures, options.dataViews?.[0]?.metadata?.objects);
         this.formatMode = options.formatMode;
-        let width = options.viewport.width;
-        let height = options.viewport.height;
-        let total = 0;
+        this.transition = this.createTransition(options);
+        this.updateDrillPath(options);
+        this.updatePanels(this.viewModel.panels);
+        this.formattingSettings.populateColorSelector(this.getColorSelectorDataPoints(), this.viewModel.series);
+        this.formattingSettings.smallMultiples.visible = this.panels.some((panel: ParetoPanel) => panel.value !== undefined);
+        const viewport = options.viewport;
+
+        this.svg
+            .attr("width", viewport.width)
+            .attr("height", viewport.height)
+            .attr("role", "group")
+            .attr("aria-label", this.getChartAriaLabel())
+            .attr("aria-busy", `${this.isLoadingMoreData}`)
+            .classed("loading", this.isLoadingMoreData);
+
+        this.updateDirectEditElementFormat();
+        this.renderExportButton();
+        this.renderBreadcrumbs(options.dataViews?.[0]?.metadata);
+        const breadcrumbHeight: number = (<HTMLElement>this.breadcrumbElement.node()).getBoundingClientRect().height;
+        this.renderValueWarning(breadcrumbHeight);
+        this.topElementsHeight = Math.max(
+            (<HTMLElement>this.directEditElement.node()).getBoundingClientRect().height,
+            (<HTMLElement>this.exportButtonElement.node()).getBoundingClientRect().height,
+            breadcrumbHeight + (<HTMLElement>this.valueWarningElement.node()).getBoundingClientRect().height
+        );
+        this.renderNoData();
+        this.renderExportPanel();
+        this.renderLegend(viewport);
+
+        const headerHeight: number = this.topElementsHeight + this.measureLegendHeight();
+        const smallMultiples = this.formattingSettings.smallMultiples;
+        const grid: GridLayout = computeGrid(
+            this.panels.length,
+            smallMultiples.rows.value,
+            smallMultiples.columns.value,
+            viewport.width,
+            Math.max(0, viewport.height - headerHeight)
+        );
 
-        this.barDataPoints.forEach((value: BarChartDataPoint) => {
-            total += <number>value.value;
+        this.panels.forEach((panel: ParetoPanel, i: number) => {
+            const position = getCellPosition(i, grid);
+            panel.container.attr('transform', `translate(${position.x}, ${position.y + headerHeight})`);
+            this.renderPanel(options, panel, grid);
         });
 
+        this.syncSelectionState(<ISelectionId[]>this.selectionManager.getSelectionIds());
+        this.subSelectionHelper.setFormatMode(options.formatMode);
+        const shouldUpdateSubSelection = options.type & (powerbi.VisualUpdateType.Data
+            | powerbi.VisualUpdateType.Resize
+            | powerbi.VisualUpdateType.FormattingSubSelectionChange);
+        if (this.formatMode && shouldUpdateSubSelection) {
+            this.subSelectionHelper.updateOutlinesFromSubSelections(options.subSelections, true);
+        }
+    }
 
-        this.svg
-            .attr("width", width)
-            .attr("height", height);
+    /**
+     * Returns the transition the bars, markers, labels and cumulative line move with when
+     * the data changes, undefined when they jump to their new place: on resizes, with the
+     * animation turned off, and when the host renders for export or printing.
+     */
+    private createTransition(options: VisualUpdateOptions): d3.Transition<any, unknown, null, undefined> {
+        const generalView = this.formattingSettings.generalView;
+        const isAnimated: boolean = !!(options.type & powerbi.VisualUpdateType.Data)
+            && generalView.animate.value
+            && generalView.animationDuration.value > 0
+            && canAnimate(this.host.hostCapabilities.allowInteractions);
+
+        return isAnimated
+            ? d3.transition()
+                .duration(generalView.animationDuration.value)
+                .ease(getEasing(<string>generalView.animationEasing.value.value))
+            : undefined;
+    }
+
+    /**
+     * Returns what the moving attributes of the elements are set on: their transition
+     * while the update is animated, the elements themselves otherwise. A panel drawn on
+     * canvas is never animated. Without a transition, one still running from an earlier
+     * update is stopped so it does not overwrite the new values.
+     */
+    private animate(selection: Selection<any>): Selection<any> {
+        return this.transition && !this.panel.useCanvas
+            ? <Selection<any>><unknown>selection.transition(this.transition)
+            : selection.interrupt();
+    }
+
+    /**
+     * Fades out and removes the elements of categories that left the chart. They lose
+     * their class right away, so an update arriving during the fade does not join them.
+     */
+    private removeExiting(exit: Selection<any>, className: string) {
+        this.animate(exit.classed(className, false).attr("tabindex", null).style("pointer-events", "none"))
+            .style("opacity", 0)
+            .remove();
+    }
 
-        if (this.formattingSettings.enableAxis.show.value) {
-            const margins = ParetoChart.Config.margins;
+    /**
+     * Asks the host for the next window of categories while the data view is a segment
+     * of the query result. The appended windows arrive as further data updates, so the
+     * chart is drawn from the categories loaded so far and marked busy until the last
+     * one; a Pareto order and its cumulative percentages are only final then. The host
+     * refuses once the visual reaches its memory limit, the chart then stays partial.
+     */
+    private requestMoreData(dataView: powerbi.DataView) {
+        this.isLoadingMoreData = !!dataView?.metadata?.segment && this.host.fetchMoreData(true);
+    }
+
+    /**
+     * Creates or removes panel elements so there is one per small multiple, then hands
+     * each panel its data.
+     */
+    private updatePanels(panelData: ParetoPanelModel[]) {
+        while (this.panels.length < panelData.length) {
+            this.panels.push(this.createPanel());
         }
-        
-        const margins = ParetoChart.Config.margins;
-        height -= margins.bottom;
+        this.panels.splice(panelData.length).forEach((panel: ParetoPanel) => {
+            panel.container.remove();
+        });
 
-        this.updateDirectEditElementFormat();
-        this.xAxis
-            .style("font-size", Math.min(height, width) * ParetoChart.Config.xAxisFontMultiplier)
-            .style("fill", this.formattingSettings.enableAxis.fill.value.value);
-
-        this.yAxisLeft
-            .style("font-size", Math.min(height, width) * ParetoChart.Config.xAxisFontMultiplier)
-            // .style("fill", this.formattingSettings.enableAxis.fill.value.value);
-
-        this.yAxisRight
-            .style("font-size", Math.min(height, width) * ParetoChart.Config.xAxisFontMultiplier)
-            // .style("fill", this.formattingSettings.enableAxis.fill.value.value);
-        console.log( Math.min(height, width) * ParetoChart.Config.xAxisFontMultiplier/ 5)
+        this.panels.forEach((panel: ParetoPanel, i: number) => {
+            Object.assign(panel, panelData[i]);
+        });
+    }
+
+    /**
+     * Returns one data point per category for the color slices; with small multiples the
+     * same category appears in several panels.
+     */
+    private getColorSelectorDataPoints(): BarChartDataPoint[] {
+        const categories: Set<string> = new Set();
+
+        return [].concat(...this.panels.map((panel: ParetoPanel) => panel.dataPoints))
+            .filter((dataPoint: BarChartDataPoint) => {
+                const isFirst: boolean = !categories.has(dataPoint.category);
+                categories.add(dataPoint.category);
+                return isFirst;
+            });
+    }
+
+    /**
+     * Draws one Pareto panel inside its grid cell. With shared axes every panel uses the
+     * scale of the largest one.
+     */
+    private renderPanel(options: VisualUpdateOptions, panel: ParetoPanel, grid: GridLayout) {
+        const smallMultiples = this.formattingSettings.smallMultiples;
+        const isShared: boolean = smallMultiples.sharedAxes.value;
+        this.panel = panel;
+        this.barDataPoints = panel.dataPoints;
+        panel.useCanvas = this.countShapes(panel) > ParetoChart.Config.canvasThreshold;
+        panel.container.attr('aria-label', panel.value ?? this.getChartAriaLabel());
+
+        const titleHeight: number = this.renderPanelTitle(panel, grid.cellWidth);
+        const valueAxis = this.formattingSettings.valueAxis;
+        // Compared measures are drawn at their own values, so the axis runs to the largest total
+        const getAxisTotal = (otherPanel: ParetoPanel): number => Math.max(otherPanel.total, ...otherPanel.measureTotals);
+        const domainTotal: number = isShared
+            ? Math.max(...this.panels.map(getAxisTotal))
+            : getAxisTotal(panel);
         const yScale = scaleLinear()
-            .domain([0, total])
-            .range([height, margins.top]);
+            .domain(getValueDomain(domainTotal, valueAxis.start.value, valueAxis.end.value))
+            .clamp(true);
 
+        const percentDomainPoints: BarChartDataPoint[] = isShared
+            ? [].concat(...this.panels.map((otherPanel: ParetoPanel) => otherPanel.dataPoints))
+            : panel.dataPoints;
         const yScaleRight = scaleLinear()
-            .domain([0, 100])
-            .range([height, margins.top])
+            .domain(getPercentDomain(percentDomainPoints, <string>this.formattingSettings.percentAxis.range.value.value))
+            .clamp(true);
+
+        this.setAxisTickFormats(yScale);
+        const layout: ChartLayout = this.computeChartLayout({ width: grid.cellWidth, height: grid.cellHeight }, yScale, yScaleRight, titleHeight);
+        const width: number = layout.plotWidth;
+        const height: number = layout.plotHeight;
+
+        this.panel.plotArea.attr('transform', `translate(${layout.margins.left}, ${layout.margins.top})`);
+        yScale.range([height, 0]);
+        yScaleRight.range([height, 0]);
+
+        const xScale = this.createXScale(width);
+
+        this.renderAxes(layout, xScale, yScale, yScaleRight);
+        this.renderCumulativeLine(xScale, yScaleRight);
+        this.renderMeasureLines(xScale, yScaleRight);
+        this.handleAnalyticsLinesUpdate(height, width, yScale);
+        this.handleVitalFewUpdate(height, width, xScale, yScaleRight, panel.vitalFewCount);
+        this.renderBars(options, width, height, xScale, yScale);
+        this.renderDataLabels(height, xScale, yScale);
+    }
+
+    /**
+     * Returns the number of bars and stack segments the panel draws; past the canvas
+     * threshold they are drawn on a canvas instead of as SVG elements.
+     */
+    private countShapes(panel: ParetoPanel): number {
+        return panel.dataPoints.reduce((count: number, dataPoint: BarChartDataPoint) =>
+            count + 1 + (dataPoint.segments ? dataPoint.segments.length : 0), 0);
+    }
+
+    /**
+     * Draws the title of a small multiple and returns the height it takes, 0 without one.
+     */
+    private renderPanelTitle(panel: ParetoPanel, cellWidth: number): number {
+        const smallMultiples = this.formattingSettings.smallMultiples;
+        const textProperties: TextProperties = {
+            fontFamily: ParetoChart.Config.fontFamily,
+            fontSize: `${smallMultiples.titleFontSize.value}px`
+        };
+        const hasTitle: boolean = smallMultiples.showTitle.value && panel.value !== undefined;
+
+        panel.title
+            .style("display", hasTitle ? null : "none")
+            .attr("x", cellWidth / 2)
+            .attr("y", OuterPadding)
+            .attr("text-anchor", "middle")
+            .attr("dominant-baseline", "hanging")
+            .style("font-family", textProperties.fontFamily)
+            .style("font-size", textProperties.fontSize)
+            .style("fill", this.theme.getForegroundColor(smallMultiples.titleFill.value.value))
+            .text(hasTitle ? textMeasurementService.getTailoredTextOrDefault({ ...textProperties, text: panel.value }, cellWidth) : "");
+
+        return hasTitle
+            ? textMeasurementService.measureSvgTextHeight(textProperties, panel.value) + OuterPadding
+            : 0;
+    }
+
+    private updateDrillPath(options: VisualUpdateOptions) {
+        const categories: DataViewCategoryColumn[] = getHierarchyColumns(options.dataViews?.[0]?.categorical?.categories || []);
+        if (!categories.length) {
+            return;
+        }
+
+        // The step is read from the level and the data point of the previous update, which
+        // the panels still hold
+        const drilledDataPoint: BarChartDataPoint = this.findDrilledDataPoint();
+        const drilledItem: DrillPathItem = drilledDataPoint && {
+            queryName: this.drillLevel,
+            levelName: this.drillLevelName,
+            label: drilledDataPoint.category
+        };
+
+        this.drillLevel = getLeafCategory(categories).source.queryName;
+        this.drillLevelName = getLeafCategory(categories).source.displayName;
+        this.canDrillDown = canDrill(options.dataViews[0].metadata, DrillType.Down);
+        if (options.type & powerbi.VisualUpdateType.Data) {
+            this.drillPath = updateDrillPath(this.drillPath, this.drillLevel, categories.length > 1, drilledItem);
+            this.pendingDrill = undefined;
+        }
+    }
+
+    /**
+     * Returns the data point whose identity the host was last handed to drill into, by a
+     * click in drill mode or from the context menu; the "All other" bucket has no identity
+     * of its own and is never drilled into.
+     */
+    private findDrilledDataPoint(): BarChartDataPoint {
+        if (!this.pendingDrill) {
+            return undefined;
+        }
+
+        return [].concat(...this.panels.map((panel: ParetoPanel) => panel.dataPoints))
+            .filter((dataPoint: BarChartDataPoint) => dataPoint.selectionId?.equals(this.pendingDrill))[0];
+    }
+
+    /**
+     * Draws the drill path and the drill buttons above the plot. The bar is only shown
+     * when the category field is a hierarchy the host lets the visual drill into.
+     */
+    private renderBreadcrumbs(metadata: DataViewMetadata) {
+        const drillButtons = [
+            { drillType: DrillType.Up, text: "\u2191", title: this.localize("Visual_DrillUp") },
+            { drillType: DrillType.MoveToNextlevel, text: "\u2193", title: this.localize("Visual_GoToNextLevel") },
+            { drillType: DrillType.Down, text: "\u21CA", title: this.localize("Visual_ExpandAllDownOneLevel") }
+        ];
+        const isDrillable: boolean = this.drillPath.length > 0
+            || drillButtons.some(button => canDrill(metadata, button.drillType));
+
+        const hasData: boolean = this.panels.some((panel: ParetoPanel) => panel.dataPoints.length > 0);
+        this.breadcrumbElement.classed('hidden', !isDrillable || !hasData);
+
+        this.breadcrumbElement
+            .selectAll('button')
+            .data(drillButtons)
+            .join('button')
+            .attr('title', button => button.title)
+            .property('disabled', button => !canDrill(metadata, button.drillType))
+            .text(button => button.text)
+            .on('click', (event: Event, button) => {
+                event.stopPropagation();
+                this.pendingDrill = undefined;
+                this.host.drill({ roleName: DrillRoleName, drillType: button.drillType });
+            });
+
+        const crumbs: string[] = [this.localize("Visual_All")]
+            .concat(this.drillPath.map((item: DrillPathItem) => item.label));
+
+        this.breadcrumbElement
+            .selectAll('span.crumb')
+            .data(crumbs)
+            .join('span')
+            .classed('crumb', true)
+            .attr('title', (crumb: string, i: number) => i > 0 ? this.drillPath[i - 1].levelName : null)
+            .text((crumb: string) => crumb);
+
+        this.breadcrumbElement
+            .selectAll('span.drill-level')
+            .data(this.viewModel.categoryName ? [this.viewModel.categoryName] : [])
+            .join('span')
+            .classed('drill-level', true)
+            .text((levelName: string) => levelName);
+    }
+
+    /**
+     * Shows a badge below the breadcrumbs when the Exclude policy left rows out of the
+     * chart; hovering it lists the rows and why they were excluded.
+     */
+    private renderValueWarning(top: number) {
+        const excluded: ExcludedValue[] = this.viewModel.excluded;
+        const isVisible: boolean = this.formattingSettings.invalidValues.showWarning.value && excluded.length > 0;
+        const reasons = {
+            [InvalidReason.Null]: this.localize("Visual_Reason_Blank"),
+            [InvalidReason.NonNumeric]: this.localize("Visual_Reason_NonNumeric"),
+            [InvalidReason.Negative]: this.localize("Visual_Reason_Negative")
+        };
+        const listed: string[] = excluded
+            .slice(0, ParetoChart.Config.maxListedExclusions)
+            .map((value: ExcludedValue) => [value.panel, value.category, value.series]
+                .filter((part: string) => part !== undefined)
+                .join(" / ") + `: ${reasons[value.reason]}`);
+        if (excluded.length > listed.length) {
+            listed.push(this.localize("Visual_AndMore", excluded.length - listed.length));
+        }
+
+        this.valueWarningElement
+            .classed('hidden', !isVisible)
+            .style('top', `${top}px`)
+            .attr('title', listed.join("\n"))
+            .text(`\u26A0 ${this.localize(excluded.length === 1 ? "Visual_ValueExcluded" : "Visual_ValuesExcluded", excluded.length)}`);
+    }
+
+    /**
+     * Creates the tick label formatters of the three axes; they are used both to measure
+     * the labels for the layout and to draw them.
+     */
+    private setAxisTickFormats(yScale: ScaleLinear<number, number>) {
+        const settings = this.formattingSettings;
+        const categoryFormatter: IValueFormatter = createTickFormatter(
+            undefined,
+            <number>settings.categoryAxis.displayUnits.value,
+            Math.max(0, ...this.barDataPoints.map(dataPoint => Number(dataPoint.category)).filter(isFinite))
+        );
+        const valueFormatterForTicks: IValueFormatter = createTickFormatter(
+            this.viewModel.measureFormat,
+            <number>settings.valueAxis.displayUnits.value,
+            Math.max(...yScale.domain().map(Math.abs))
+        );
+
+        const otherBucket: BarChartDataPoint = this.barDataPoints.filter((dataPoint: BarChartDataPoint) => dataPoint.otherMembers)[0];
+
+        // Ticks are category keys; only numeric categories (years, sizes) are scaled by display units
+        this.categoryTickFormat = (category: string) => {
+            if (category === OtherBucketKey) {
+                return otherBucket?.category;
+            }
+
+            return category !== "" && isFinite(Number(category))
+                ? categoryFormatter.format(Number(category))
+                : category;
+        };
+        this.valueTickFormat = (value: number) => valueFormatterForTicks.format(value);
+        this.percentTickFormat = (value: number) => this.formatPercent(value, ParetoChart.Config.cumulativeLabelFormat);
+    }
+
+    /**
+     * Measures the axes and the elements around the plot, then reserves space for them
+     * before the scale ranges are set.
+     */
+    private computeChartLayout(
+        viewport: powerbi.IViewport,
+        yScale: ScaleLinear<number, number>,
+        yScaleRight: ScaleLinear<number, number>,
+        titleHeight: number
+    ): ChartLayout {
+        const settings = this.formattingSettings;
+        const categoryTextProperties: TextProperties = getAxisTextProperties(settings.categoryAxis);
+        const valueTextProperties: TextProperties = getAxisTextProperties(settings.valueAxis);
+        const percentTextProperties: TextProperties = getAxisTextProperties(settings.percentAxis);
+        const labelHeight: number = textMeasurementService.measureSvgTextHeight(categoryTextProperties, "0");
+        const yLabelHeight: number = Math.max(
+            settings.valueAxis.show.value ? textMeasurementService.measureSvgTextHeight(valueTextProperties, "0") : 0,
+            settings.percentAxis.show.value ? textMeasurementService.measureSvgTextHeight(percentTextProperties, "0") : 0
+        );
+        const layoutInput: LayoutInput = {
+            width: viewport.width,
+            height: viewport.height,
+            xAxis: {
+                show: settings.categoryAxis.show.value && this.barDataPoints.length > 0,
+                labelSize: labelHeight,
+                titleSize: this.measureAxisTitle(settings.categoryAxis)
+            },
+            yAxisLeft: {
+                show: settings.valueAxis.show.value,
+                labelSize: this.measureWidestTick(yScale, valueTextProperties, this.valueTickFormat, getTickCount(settings.valueAxis)),
+                titleSize: this.measureAxisTitle(settings.valueAxis)
+            },
+            yAxisRight: {
+                show: settings.percentAxis.show.value,
+                labelSize: this.measureWidestTick(yScaleRight, percentTextProperties, this.percentTickFormat, getTickCount(settings.percentAxis)),
+                titleSize: this.measureAxisTitle(settings.percentAxis)
+            },
+            // The legend is drawn once above the panels
+            legendHeight: 0,
+            // The topmost y axis tick label is centered on the top edge of the plot
+            topReserved: titleHeight + yLabelHeight / 2
+        };
+
+        // The plot width does not depend on the x axis, so the category bands are known
+        // from a first pass and the label area height is measured for the second one
+        const bandwidth: number = this.createXScale(computeLayout(layoutInput).plotWidth).bandwidth();
+        this.xAxisLabelMeasurement = {
+            widestLabel: this.barDataPoints
+                .map((dataPoint: BarChartDataPoint) => textMeasurementService.measureSvgTextWidth(
+                    categoryTextProperties,
+                    this.categoryTickFormat(getCategoryKey(dataPoint))
+                ))
+                .reduce((widest: number, labelWidth: number) => Math.max(widest, labelWidth), 0),
+            labelHeight,
+            bandwidth,
+            maxLabelLength: viewport.height * ParetoChart.Config.maxXAxisLabelRatio,
+            maxWrapLines: ParetoChart.Config.maxXAxisWrapLines
+        };
+        this.xAxisLabelMode = resolveAxisLabelMode(
+            <AxisLabelMode>settings.categoryAxis.labelMode.value.value,
+            this.xAxisLabelMeasurement
+        );
+        layoutInput.xAxis.labelSize = getAxisLabelAreaHeight(this.xAxisLabelMode, this.xAxisLabelMeasurement);
 
-        const xScale = scaleBand()
-            .domain(this.barDataPoints.map(d => d.category))
-            .rangeRound([0, width])
+        return computeLayout(layoutInput);
+    }
+
+    private createXScale(width: number): ScaleBand<string> {
+        // Rounding to whole pixels would collapse the bands once there are more categories than pixels
+        return scaleBand()
+            .domain(this.barDataPoints.map(getCategoryKey))
+            .range([0, width])
+            .round(this.barDataPoints.length <= width)
             .padding(0.2);
+    }
 
+    private measureWidestTick(
+        scale: ScaleLinear<number, number>,
+        textProperties: TextProperties,
+        tickFormat: (value: number) => string,
+        tickCount: number
+    ): number {
+        return scale.ticks(tickCount)
+            .map((tick: number) => textMeasurementService.measureSvgTextWidth(textProperties, tickFormat(tick)))
+            .reduce((widest: number, tickWidth: number) => Math.max(widest, tickWidth), 0);
+    }
 
+    private measureAxisTitle(axis: AxisCardSettings): number {
+        if (!axis.showTitle.value) {
+            return 0;
+        }
 
-        const xAxis = axisBottom(xScale);
-        const yAxisLeft = axisRight(yScale);
-        const yAxisRight = axisLeft(yScaleRight);
+        return textMeasurementService.measureSvgTextHeight(getAxisTextProperties(axis), this.getAxisTitle(axis))
+            + ParetoChart.Config.axisTitlePadding;
+    }
 
+    private getAxisTitle(axis: AxisCardSettings): string {
+        if (axis.titleText.value) {
+            return axis.titleText.value;
+        }
 
-        const colorObjects = options.dataViews[0] ? options.dataViews[0].metadata.objects : null;
-        this.xAxis.attr('transform', 'translate(0, ' + height + ')')
-            .call(xAxis)
-            .attr("color", getAxisTextFillColor(
-                colorObjects,
-                this.host.colorPalette,
-                this.formattingSettings.enableAxis.fill.value.value
-            ));
+        switch (axis.name) {
+            case BarChartObjectNames.CategoryAxis:
+                return this.viewModel.categoryName || "";
+            case BarChartObjectNames.ValueAxis:
+                return this.viewModel.measureName || "";
+            default:
+                return this.localize("Visual_CumulativePercent");
+        }
+    }
 
-        this.yAxisLeft.attr('transform', 'translate(' + 0 + ', 0)')
-            .call(yAxisLeft)
-            .attr("color", getAxisTextFillColor(
-                colorObjects,
-                this.host.colorPalette,
-                this.formattingSettings.enableAxis.fill.value.value
-            ));
+    /**
+     * Returns what the legend lists: the series when bars are stacked, otherwise the
+     * measures when several are compared.
+     */
+    private getLegendItems(): BarChartSeries[] {
+        if (this.viewModel.series.length) {
+            return this.viewModel.series;
+        }
 
-        this.yAxisRight.attr('transform', 'translate(' +  (width - margins.right )+ ', 0)')
-            .call(yAxisRight)
-            .attr("color", getAxisTextFillColor(
-                colorObjects,
-                this.host.colorPalette,
-                this.formattingSettings.enableAxis.fill.value.value
-            ));
+        return this.viewModel.measures.length > 1
+            ? this.viewModel.measures.map((measure: BarChartMeasure) => ({ name: measure.name, color: measure.color, selectionId: null }))
+            : [];
+    }
 
-            let cumulative = 0;
+    private isLegendVisible(): boolean {
+        return this.formattingSettings.legend.show.value && this.getLegendItems().length > 0;
+    }
 
-        const lineDataPoints: [number, number][]  = this.barDataPoints.map((el, i) => {
-            cumulative = cumulative + <number>el.value / total * 100;
-            el.cumulative = cumulative;
+    private measureLegendHeight(): number {
+        if (!this.isLegendVisible()) {
+            return 0;
+        }
+
+        return textMeasurementService.measureSvgTextHeight(getAxisTextProperties(this.formattingSettings.legend), "0")
+            + OuterPadding;
+    }
+
+    /**
+     * Draws the series legend in one row above the plot. Items that do not fit the width
+     * of the visual are left out.
+     */
+    private renderLegend(viewport: powerbi.IViewport) {
+        const legendSettings = this.formattingSettings.legend;
+        const textProperties: TextProperties = getAxisTextProperties(legendSettings);
+        const textHeight: number = textMeasurementService.measureSvgTextHeight(textProperties, "0");
+        const markerRadius: number = textHeight / 4;
+        const itemPadding: number = ParetoChart.Config.legendItemPadding;
+        const maxWidth: number = viewport.width - 2 * OuterPadding;
+
+        this.legend
+            .style("display", this.isLegendVisible() ? null : "none")
+            .attr("transform", `translate(${OuterPadding}, ${OuterPadding + this.topElementsHeight})`)
+            .style("font-family", textProperties.fontFamily)
+            .style("font-size", textProperties.fontSize)
+            .style("font-weight", textProperties.fontWeight)
+            .style("font-style", textProperties.fontStyle)
+            .style("text-decoration", legendSettings.font.underline.value ? "underline" : "none")
+            .style("fill", this.theme.getForegroundColor(legendSettings.fill.value.value));
+
+        const title: string = legendSettings.titleText.value || (this.viewModel.series.length ? this.viewModel.seriesName : "") || "";
+        const titles: string[] = this.isLegendVisible() && legendSettings.showTitle.value && title ? [title] : [];
+        this.legend
+            .selectAll('text.legendTitle')
+            .data(titles)
+            .join('text')
+            .classed('legendTitle', true)
+            .attr("x", this.rightToLeft ? maxWidth : 0)
+            .attr("text-anchor", this.rightToLeft ? "end" : "start")
+            .attr("dominant-baseline", "hanging")
+            .style("font-weight", "bold")
+            .text((text: string) => text);
+
+        let x: number = titles.length
+            ? textMeasurementService.measureSvgTextWidth({ ...textProperties, fontWeight: "bold" }, title) + itemPadding
+            : 0;
+        const items: { series: BarChartSeries, x: number, width: number }[] = [];
+        (this.isLegendVisible() ? this.getLegendItems() : []).forEach((series: BarChartSeries) => {
+            const itemWidth: number = 2 * markerRadius + itemPadding / 2
+                + textMeasurementService.measureSvgTextWidth(textProperties, series.name);
+            if (x + itemWidth <= maxWidth) {
+                // Right-to-left legends start at the right edge, with the marker right of the name
+                items.push({ series, x: this.rightToLeft ? maxWidth - x - itemWidth : x, width: itemWidth });
+            }
+            x += itemWidth + itemPadding;
+        });
+
+        const itemSelection = this.legend
+            .selectAll('g.legendItem')
+            .data(items)
+            .join((enter) => {
+                const item = enter.append('g').classed('legendItem', true);
+                item.append('circle');
+                item.append('text');
+                return item;
+            })
+            .attr("transform", item => `translate(${item.x}, 0)`);
+
+        itemSelection.select('circle')
+            .attr("cx", item => this.rightToLeft ? item.width - markerRadius : markerRadius)
+            .attr("cy", textHeight / 2)
+            .attr("r", markerRadius)
+            .style("fill", item => item.series.color)
+            .style("stroke", this.theme.getStrokeColor());
+
+        itemSelection.select('text')
+            .attr("x", item => this.rightToLeft ? item.width - 2 * markerRadius - itemPadding / 2 : 2 * markerRadius + itemPadding / 2)
+            .attr("text-anchor", this.rightToLeft ? "end" : "start")
+            .attr("dominant-baseline", "hanging")
+            .text(item => item.series.name);
+
+        itemSelection.on('click', (event: MouseEvent, item) => {
+            if (this.host.hostCapabilities.allowInteractions && !this.formatMode && item.series.selectionId) {
+                this.selectionManager
+                    .select(item.series.selectionId, event.ctrlKey)
+                    .then((ids: ISelectionId[]) => {
+                        this.syncSelectionState(ids);
+                    });
+                event.stopPropagation();
+            }
+        });
+    }
+
+    private renderAxes(
+        layout: ChartLayout,
+        xScale: ScaleBand<string>,
+        yScale: ScaleLinear<number, number>,
+        yScaleRight: ScaleLinear<number, number>
+    ) {
+        const settings = this.formattingSettings;
+        const width: number = layout.plotWidth;
+        const height: number = layout.plotHeight;
+        // A canvas panel has far more categories than fit side by side; unless the user set a
+        // tick count, label as many as fit one label height apart
+        const categoryTickCount: number = getTickCount(settings.categoryAxis)
+            ?? (this.panel.useCanvas ? Math.max(1, Math.floor(width / this.xAxisLabelMeasurement.labelHeight)) : undefined);
+        const categoryStep: number = categoryTickCount ? Math.ceil(xScale.domain().length / categoryTickCount) : 1;
+
+        const xAxis = axisBottom(xScale)
+            .tickValues(xScale.domain().filter((category: string, i: number) => i % categoryStep === 0))
+            .tickFormat(this.categoryTickFormat);
+        const yAxisLeft = axisLeft(yScale)
+            .ticks(getTickCount(settings.valueAxis))
+            .tickFormat(this.valueTickFormat);
+        const yAxisRight = axisRight(yScaleRight)
+            .ticks(getTickCount(settings.percentAxis))
+            .tickFormat(this.percentTickFormat);
+
+        this.renderAxis(this.panel.xAxis, settings.categoryAxis, 'translate(0, ' + height + ')', xAxis);
+        this.formatXAxisLabels();
+        this.renderAxis(this.panel.yAxisLeft, settings.valueAxis, 'translate(' + 0 + ', 0)', yAxisLeft);
+        this.renderAxis(this.panel.yAxisRight, settings.percentAxis, 'translate(' + width + ', 0)', yAxisRight);
+
+        this.renderGridlines(this.panel.xGridlines, settings.categoryAxis, 'translate(0, ' + height + ')',
+            axisBottom(xScale).tickValues(xAxis.tickValues()).tickSize(-height));
+        this.renderGridlines(this.panel.yGridlinesLeft, settings.valueAxis, 'translate(0, 0)',
+            axisLeft(yScale).ticks(getTickCount(settings.valueAxis)).tickSize(-width));
+        this.renderGridlines(this.panel.yGridlinesRight, settings.percentAxis, 'translate(' + width + ', 0)',
+            axisRight(yScaleRight).ticks(getTickCount(settings.percentAxis)).tickSize(-width));
+
+        this.renderAxisTitles(layout);
+    }
+
+    private renderAxis(
+        axisElement: Selection<SVGElement>,
+        axis: AxisCardSettings,
+        transform: string,
+        axisGenerator: Axis<any>
+    ) {
+        const textProperties: TextProperties = getAxisTextProperties(axis);
+
+        axisElement
+            .style("display", axis.show.value ? null : "none")
+            .attr('transform', transform)
+            .call(axisGenerator)
+            .attr(SubSelectableObjectNameAttribute, axis.name)
+            .attr(SubSelectableDisplayNameAttribute, this.localize(axis.displayNameKey))
+            .attr(SubSelectableTypeAttribute, powerbi.visuals.SubSelectionStylesType.Text)
+            .classed(HtmlSubSelectableClass, this.formatMode && axis.show.value)
+            .attr("font-family", textProperties.fontFamily)
+            .attr("font-size", textProperties.fontSize)
+            .attr("font-weight", textProperties.fontWeight)
+            .attr("font-style", textProperties.fontStyle)
+            .attr("text-decoration", axis.font.underline.value ? "underline" : "none")
+            .attr("color", this.theme.getForegroundColor(axis.fill.value.value));
+    }
+
+    private renderGridlines(
+        gridElement: Selection<SVGElement>,
+        axis: AxisCardSettings,
+        transform: string,
+        axisGenerator: Axis<any>
+    ) {
+        gridElement
+            .style("display", axis.showGridlines.value ? null : "none")
+            .attr('transform', transform)
+            .call(axisGenerator.tickFormat(() => ""))
+            .attr("color", this.theme.getForegroundColor(ParetoChart.Config.gridlineColor));
+
+        gridElement.select('.domain').remove();
+    }
+
+    private renderAxisTitles(layout: ChartLayout) {
+        const settings = this.formattingSettings;
+        const padding: number = ParetoChart.Config.axisTitlePadding;
+        const margins = layout.margins;
+
+        this.renderAxisTitle(this.panel.xAxisTitle, settings.categoryAxis,
+            `translate(${layout.plotWidth / 2}, ${layout.plotHeight + margins.bottom - padding})`, "text-after-edge");
+        this.renderAxisTitle(this.panel.yAxisLeftTitle, settings.valueAxis,
+            `translate(${padding - margins.left}, ${layout.plotHeight / 2}) rotate(-90)`, "hanging");
+        this.renderAxisTitle(this.panel.yAxisRightTitle, settings.percentAxis,
+            `translate(${layout.plotWidth + margins.right - padding}, ${layout.plotHeight / 2}) rotate(90)`, "hanging");
+    }
+
+    private renderAxisTitle(
+        titleElement: Selection<SVGElement>,
+        axis: AxisCardSettings,
+        transform: string,
+        baseline: string
+    ) {
+        const textProperties: TextProperties = getAxisTextProperties(axis);
+
+        titleElement
+            .style("display", axis.show.value && axis.showTitle.value ? null : "none")
+            .attr("transform", transform)
+            .attr("text-anchor", "middle")
+            .attr("dominant-baseline", baseline)
+            .style("font-family", textProperties.fontFamily)
+            .style("font-size", textProperties.fontSize)
+            .style("font-weight", textProperties.fontWeight)
+            .style("font-style", textProperties.fontStyle)
+            .style("fill", this.theme.getForegroundColor(axis.fill.value.value))
+            .text(this.getAxisTitle(axis));
+    }
+
+    private renderCumulativeLine(
+        xScale: ScaleBand<string>,
+        yScaleRight: ScaleLinear<number, number>
+    ) {
+        const cumulativeLine = this.formattingSettings.cumulativeLine;
+        const lineDataPoints: [number, number][]  = this.barDataPoints.map((el) => {
             return [
-                xScale(el.category) + xScale.bandwidth(),
-                yScaleRight(cumulative)
+                xScale(getCategoryKey(el)) + xScale.bandwidth(),
+                yScaleRight(el.cumulative)
             ]
         });
 
-        const startPoint: [number, number] = [xScale( this.barDataPoints[0].category), yScaleRight(0)];
-
-        const lineArray: [number, number][] = [ [...startPoint],...lineDataPoints];
+        // The line starts at the left edge of the first bar, from 0%
+        const lineArray: [number, number][] = this.barDataPoints.length
+            ? [[xScale(getCategoryKey(this.barDataPoints[0])), yScaleRight(0)], ...lineDataPoints]
+            : [];
 
         const guide = d3.line()
+            .curve(getCurveFactory(<string>cumulativeLine.interpolation.value.value));
+
+        // The path is tweened point by point, so it keeps its curve while it changes shape
+        const interpolate = interpolatePoints(this.panel.linePoints, lineArray);
+        this.panel.linePoints = lineArray;
+        if (this.transition && !this.panel.useCanvas) {
+            this.panel.line
+                .transition(this.transition)
+                .attrTween("d", () => (normalizedTime: number) => guide(interpolate(normalizedTime)));
+        } else {
+            this.panel.line
+                .interrupt()
+                .attr("d", guide(lineArray));
+        }
 
-        console.log(lineDataPoints)
-
-        this.line
-        .attr("d", guide(lineArray) )
+        this.panel.line
+        .attr(SubSelectableObjectNameAttribute, BarChartObjectNames.CumulativeLine)
+        .attr(SubSelectableDisplayNameAttribute, this.localize("Visual_CumulativeLine"))
+        .attr(SubSelectableTypeAttribute, powerbi.visuals.SubSelectionStylesType.Shape)
+        .classed(HtmlSubSelectableClass, this.formatMode)
         .style('fill', 'none')
-        .style('stroke', 'black');
+        .style('stroke', this.theme.getForegroundColor(cumulativeLine.fill.value.value))
+        .style('stroke-width', `${cumulativeLine.strokeWidth.value}px`)
+        .style('stroke-dasharray', getDashArray(<string>cumulativeLine.dashStyle.value.value));
 
-        this.circle.selectAll('.myCircle').remove();
+        this.renderMarkers(lineDataPoints);
+        this.renderCumulativeLabels(lineDataPoints);
+    }
 
+    /**
+     * Draws one more cumulative line per measure other than the sort measure, in the
+     * measure's color and with the style of the cumulative line.
+     */
+    private renderMeasureLines(
+        xScale: ScaleBand<string>,
+        yScaleRight: ScaleLinear<number, number>
+    ) {
+        const cumulativeLine = this.formattingSettings.cumulativeLine;
+        const guide = d3.line()
+            .curve(getCurveFactory(<string>cumulativeLine.interpolation.value.value));
+        const hasMeasureLines: boolean = this.viewModel.measures.length > 1 && this.barDataPoints.length > 0;
+        const lines = (hasMeasureLines ? this.viewModel.measures : [])
+            .map((measure: BarChartMeasure, measureIndex: number) => {
+                const lineDataPoints: [number, number][] = this.barDataPoints.map((dataPoint: BarChartDataPoint) => {
+                    const bar: BarChartDataPoint = (dataPoint.segments || [])
+                        .filter((segment: BarChartDataPoint) => segment.measureIndex === measureIndex)[0];
+                    return [
+                        xScale(getCategoryKey(dataPoint)) + xScale.bandwidth(),
+                        yScaleRight(bar ? bar.cumulative : 0)
+                    ];
+                });
+                const startPoint: [number, number] = [xScale(getCategoryKey(this.barDataPoints[0])), yScaleRight(0)];
+                return { measure, measureIndex, path: guide([startPoint, ...lineDataPoints]) };
+            })
+            .filter(line => line.measureIndex !== this.viewModel.sortMeasureIndex);
+
+        this.panel.measureLines
+            .selectAll('path')
+            .data(lines)
+            .join('path')
+            .attr("d", line => line.path)
+            .style('fill', 'none')
+            .style('stroke', line => this.theme.getForegroundColor(line.measure.color))
+            .style('stroke-width', `${cumulativeLine.strokeWidth.value}px`)
+            .style('stroke-dasharray', getDashArray(<string>cumulativeLine.dashStyle.value.value));
+    }
+
+    private renderMarkers(lineDataPoints: [number, number][]) {
+        const cumulativeLine = this.formattingSettings.cumulativeLine;
+        const markerSize: number = cumulativeLine.markerSize.value;
+        const showMarkers: boolean = cumulativeLine.showMarkers.value;
+        const symbol = d3.symbol()
+            .type(getSymbolType(<string>cumulativeLine.markerShape.value.value))
+            .size(markerSize * markerSize);
+        const stroke: string = this.theme.getForegroundColor(cumulativeLine.fill.value.value);
+        const strokeWidth: number = Math.max(1, markerSize / 4);
+        const fill: string = this.theme.getDataColor(cumulativeLine.markerFill.value.value);
+
+        this.panel.canvasMarkers = showMarkers && this.panel.useCanvas
+            ? this.barDataPoints.map((dataPoint: BarChartDataPoint, i: number) => ({
+                datum: dataPoint,
+                x: lineDataPoints[i][0] - markerSize / 2,
+                y: lineDataPoints[i][1] - markerSize / 2,
+                width: markerSize,
+                height: markerSize,
+                fill,
+                stroke,
+                strokeWidth,
+                opacity: ParetoChart.Config.solidOpacity
+            }))
+            : [];
+
+        // Markers are keyed by category, so an update only adds and removes the categories
+        // that changed; the attributes that never change are set once, on enter
+        this.panel.markerSelection = this.panel.circle
+            .selectAll('.marker')
+            .data(showMarkers && !this.panel.useCanvas ? this.barDataPoints : [], getCategoryKey)
+            .join(enter => enter
+                .append("path")
+                .classed("marker", true)
+                .attr(SubSelectableObjectNameAttribute, BarChartObjectNames.CumulativeLine)
+                .attr(SubSelectableDisplayNameAttribute, this.localize("Visual_CumulativeLine"))
+                .attr(SubSelectableTypeAttribute, powerbi.visuals.SubSelectionStylesType.Shape)
+                .attr("role", "option")
+                .attr("tabindex", -1)
+                .attr("transform", (el: BarChartDataPoint, i: number) => `translate(${lineDataPoints[i][0]}, ${lineDataPoints[i][1]})`)
+                .style("opacity", 0),
+            update => update,
+            exit => this.removeExiting(exit, "marker"))
+            .order()
+            .classed(HtmlSubSelectableClass, this.formatMode)
+            .attr("d", symbol())
+            .attr("stroke", stroke)
+            .attr("stroke-width", strokeWidth)
+            .attr("fill", fill)
+            .attr("aria-label", (dataPoint: BarChartDataPoint) => this.getAriaLabel(dataPoint));
+
+        this.animate(this.panel.markerSelection)
+            .attr("transform", (el: BarChartDataPoint, i: number) => `translate(${lineDataPoints[i][0]}, ${lineDataPoints[i][1]})`)
+            .style("opacity", 1);
+
+        this.tooltipServiceWrapper.addTooltip(this.panel.markerSelection,
+            (dataPoint: BarChartDataPoint) => this.getMarkerTooltipData(dataPoint),
+            (dataPoint: BarChartDataPoint) => dataPoint.selectionId
+        );
+    }
 
-        lineDataPoints.forEach((el) => {
-            this.circle
-            .append("circle")
-              .attr("class", "myCircle")
-              .attr("cx", el[0] )
-              .attr("cy", el[1])
-              .attr("r", Math.min(height, width) / 50)
-              .attr("stroke", "black")
-            .attr("stroke-width", 3)
-            .attr("fill", "white");
-        })
+    private renderCumulativeLabels(lineDataPoints: [number, number][]) {
+        const cumulativeLine = this.formattingSettings.cumulativeLine;
+        const labelOffset: number = cumulativeLine.markerSize.value / 2 + ParetoChart.Config.cumulativeLabelPadding;
+
+        const getX = (el: BarChartDataPoint, i: number): number => lineDataPoints[i][0];
+        const getY = (el: BarChartDataPoint, i: number): number => lineDataPoints[i][1] - labelOffset;
+
+        const labelSelection = this.panel.cumulativeLabels
+            .selectAll('.cumulativeLabel')
+            .data(cumulativeLine.showDataLabels.value ? this.barDataPoints : [], getCategoryKey)
+            .join(enter => enter
+                .append("text")
+                .classed("cumulativeLabel", true)
+                .attr("text-anchor", "middle")
+                .attr("x", getX)
+                .attr("y", getY)
+                .style("opacity", 0),
+            update => update,
+            exit => this.removeExiting(exit, "cumulativeLabel"))
+            .style("fill", this.theme.getForegroundColor(cumulativeLine.fill.value.value))
+            .text((el: BarChartDataPoint) => this.formatPercent(el.cumulative, ParetoChart.Config.cumulativeLabelFormat));
+
+        this.animate(labelSelection)
+            .attr("x", getX)
+            .attr("y", getY)
+            .style("opacity", 1);
+    }
 
-        this.barSelection = this.barContainer
-            .selectAll('.bar')
-            .data(this.barDataPoints);
+    private renderDataLabels(
+        height: number,
+        xScale: ScaleBand<string>,
+        yScale: ScaleLinear<number, number>
+    ) {
+        const dataLabels = this.formattingSettings.dataLabels;
+        const textProperties: TextProperties = {
+            fontFamily: ParetoChart.Config.fontFamily,
+            fontSize: `${dataLabels.fontSize.value}px`
+        };
+        const formatLabel = this.getDataLabelFormatter();
+        const labelHeight: number = textMeasurementService.measureSvgTextHeight(textProperties, "0");
+        const plotTop = 0;
+        const curve: d3.CurveFactory = getCurveFactory(<string>this.formattingSettings.cumulativeLine.interpolation.value.value);
+
+        const placedLabels: PlacedLabel[] = !dataLabels.show.value ? [] : this.barDataPoints
+            .map((dataPoint: BarChartDataPoint) => {
+                const text: string = formatLabel(dataPoint);
+                const labelWidth: number = textMeasurementService.measureSvgTextWidth(textProperties, text);
+                const band = this.getBarBand(dataPoint, xScale);
+                const bar: LabelBox = {
+                    x: band.x,
+                    y: yScale(<number>dataPoint.value),
+                    width: band.width,
+                    height: height - yScale(<number>dataPoint.value)
+                };
+                const center: number = bar.x + bar.width / 2;
+                const box: LabelBox = placeLabel(
+                    bar,
+                    labelWidth,
+                    labelHeight,
+                    <LabelPosition>dataLabels.position.value.value,
+                    plotTop,
+                    getLineExtent(this.panel.linePoints, curve, center - labelWidth / 2, center + labelWidth / 2)
+                );
+                return { key: getCategoryKey(dataPoint), text, box };
+            })
+            .filter(label => label.box);
+
+        const baselineDelta: number = textMeasurementService.estimateSvgTextBaselineDelta(textProperties);
+        const getX = (label: PlacedLabel): number => label.box.x + label.box.width / 2;
+        const getY = (label: PlacedLabel): number => label.box.y + label.box.height - baselineDelta;
+
+        const labelSelection = this.panel.dataLabels
+            .selectAll('.dataLabel')
+            .data(placedLabels, (label: PlacedLabel) => label.key)
+            .join(enter => enter
+                .append("text")
+                .classed("dataLabel", true)
+                .attr("text-anchor", "middle")
+                .attr("x", getX)
+                .attr("y", getY)
+                .style("opacity", 0),
+            update => update,
+            exit => this.removeExiting(exit, "dataLabel"))
+            .style("font-family", textProperties.fontFamily)
+            .style("font-size", textProperties.fontSize)
+            .style("fill", this.theme.getForegroundColor(dataLabels.fill.value.value))
+            .text(label => label.text);
+
+        this.animate(labelSelection)
+            .attr("x", getX)
+            .attr("y", getY)
+            .style("opacity", 1);
+    }
 
-        console.log(this.barDataPoints)
+    private getDataLabelFormatter(): (dataPoint: BarChartDataPoint) => string {
+        const dataLabels = this.formattingSettings.dataLabels;
+        const precision: number = dataLabels.precision.value;
+        const displayUnits: number = <number>dataLabels.displayUnits.value;
+        const valueLabelFormatter: IValueFormatter = valueFormatter.create({
+            format: this.viewModel.measureFormat,
+            value: displayUnits || Math.max(0, ...this.barDataPoints.map(dataPoint => <number>dataPoint.value)),
+            precision
+        });
+        const percentLabelFormatter: IValueFormatter = valueFormatter.create({
+            format: "0%",
+            value: 0,
+            precision,
+            cultureSelector: this.locale
+        });
 
-        const barSelectionMerged = this.barSelection
-            .enter()
-            .append('rect')
-            .merge(<any>this.barSelection);
+        return (dataPoint: BarChartDataPoint) => {
+            const value: string = valueLabelFormatter.format(dataPoint.value);
+            const percent: string = percentLabelFormatter.format(dataPoint.share / 100);
+            switch (dataLabels.content.value.value) {
+                case LabelContent.Percent:
+                    return percent;
+                case LabelContent.Both:
+                    return `${value} (${percent})`;
+                default:
+                    return value;
+            }
+        };
+    }
 
-        barSelectionMerged.classed('bar', true);
+    private renderBars(
+        options: VisualUpdateOptions,
+        width: number,
+        height: number,
+        xScale: ScaleBand<string>,
+        yScale: ScaleLinear<number, number>
+    ) {
+        // Bars are keyed by category, so an update only adds and removes the categories
+        // that changed; the attributes that never change are set once, on enter
+        const barSelectionMerged = this.panel.barContainer
+            .selectAll<SVGRectElement, BarChartDataPoint>('.bar')
+            .data(this.panel.useCanvas ? [] : this.barDataPoints, getCategoryKey)
+            .join(enter => enter
+                .append('rect')
+                .classed('bar', true)
+                .attr(SubSelectableTypeAttribute, powerbi.visuals.SubSelectionStylesType.Shape)
+                .attr("role", "option")
+                // A new category fades in and grows from the axis
+                .attr("x", d => xScale(getCategoryKey(d)))
+                .attr("width", xScale.bandwidth())
+                .attr("y", height)
+                .attr("height", 0)
+                .style("opacity", 0),
+            update => update,
+            exit => this.removeExiting(exit, 'bar'))
+            .order();
 
         const opacity: number = this.formattingSettings.generalView.opacity.value / 100;
         barSelectionMerged
-            .attr(SubSelectableObjectNameAttribute, 'colorSelector')
-            .attr(SubSelectableDisplayNameAttribute, (dataPoint: BarChartDataPoint) => this.formattingSettings.colorSelector.slices[dataPoint.index].displayName)
-            .attr(SubSelectableTypeAttribute, powerbi.visuals.SubSelectionStylesType.Shape)
+            .attr(SubSelectableObjectNameAttribute, (dataPoint: BarChartDataPoint) => dataPoint.otherMembers ? 'allOther' : 'colorSelector')
+            .attr(SubSelectableDisplayNameAttribute, (dataPoint: BarChartDataPoint) => dataPoint.category)
             .classed(HtmlSubSelectableClass, options.formatMode)
+            .style("fill-opacity", opacity)
+            .style("stroke-opacity", opacity)
+            // A split bar stays in place, unpainted, so the keyboard focus can outline its segments
+            .style("fill", (dataPoint: BarChartDataPoint) => dataPoint.segments ? "none" : dataPoint.color)
+            .style("stroke", (dataPoint: BarChartDataPoint) => dataPoint.segments ? "none" : dataPoint.strokeColor)
+            .style("stroke-width", (dataPoint: BarChartDataPoint) => `${dataPoint.strokeWidth}px`)
+            .attr("tabindex", (dataPoint: BarChartDataPoint, i: number) => i === 0 ? 0 : -1)
+            .attr("aria-label", (dataPoint: BarChartDataPoint) => this.getAriaLabel(dataPoint));
+
+        // The bars move to their new rank and grow or shrink to their new value
+        this.animate(barSelectionMerged)
             .attr("width", xScale.bandwidth())
             .attr("height", d => height - yScale(<number>d.value))
             .attr("y", d => yScale(<number>d.value))
-            .attr("x", d => xScale(d.category))
-            .style("fill-opacity", opacity)
-            .style("stroke-opacity", opacity)
-            .style("fill", (dataPoint: BarChartDataPoint) => dataPoint.color)
-            .style("stroke", (dataPoint: BarChartDataPoint) => dataPoint.strokeColor)
-            .style("stroke-width", (dataPoint: BarChartDataPoint) => `${dataPoint.strokeWidth}px`);
+            .attr("x", d => xScale(getCategoryKey(d)))
+            .style("opacity", 1);
+
+        this.panel.barSelection = barSelectionMerged;
+        this.renderSegments(options, height, xScale, yScale);
+        this.renderCanvas(width, height, xScale, yScale);
 
         this.tooltipServiceWrapper.addTooltip(barSelectionMerged,
             (dataPoint: BarChartDataPoint) => this.getTooltipData(dataPoint),
             (dataPoint: BarChartDataPoint) => dataPoint.selectionId
         );
 
-        this.syncSelectionState(
-            barSelectionMerged,
-            <ISelectionId[]>this.selectionManager.getSelectionIds()
-        );
         if (this.formatMode) {
             this.removeEventHandlers(barSelectionMerged);
         } else {
             this.addEventHandlers(barSelectionMerged);
         }
 
-        this.subSelectionHelper.setFormatMode(options.formatMode);
-        const shouldUpdateSubSelection = options.type & (powerbi.VisualUpdateType.Data
-            | powerbi.VisualUpdateType.Resize
-            | powerbi.VisualUpdateType.FormattingSubSelectionChange);
-        if (this.formatMode && shouldUpdateSubSelection) {
-            this.subSelectionHelper.updateOutlinesFromSubSelections(options.subSelections, true);
+        this.handleClick();
+    }
+
+    /**
+     * Draws the stack segments of the bars when a Series field is bound, or the clustered
+     * bars when several measures are. Each segment carries its own selection id, color
+     * and tooltip. Every measure is drawn at its own value on the shared value axis; its
+     * cumulative line is still read against its own total on the percent axis.
+     */
+    private renderSegments(
+        options: VisualUpdateOptions,
+        height: number,
+        xScale: ScaleBand<string>,
+        yScale: ScaleLinear<number, number>
+    ) {
+        const segments: BarChartDataPoint[] = this.panel.useCanvas ? [] : this.getSegments();
+        const clusterScale: ScaleBand<number> = this.createClusterScale(xScale);
+        const getRect = (segment: BarChartDataPoint): LabelBox => this.getSegmentRect(segment, xScale, yScale, clusterScale);
+
+        this.panel.segmentSelection = this.panel.segmentContainer
+            .selectAll('.segment')
+            .data(segments, (segment: BarChartDataPoint) => getSegmentKey(segment))
+            .join(enter => enter
+                .append('rect')
+                .classed('segment', true)
+                .attr(SubSelectableTypeAttribute, powerbi.visuals.SubSelectionStylesType.Shape)
+                // A new segment fades in and grows from the bottom of its place in the stack
+                .attr("x", (segment: BarChartDataPoint) => getRect(segment).x)
+                .attr("width", (segment: BarChartDataPoint) => getRect(segment).width)
+                .attr("y", (segment: BarChartDataPoint) => getRect(segment).y + getRect(segment).height)
+                .attr("height", 0)
+                .style("opacity", 0),
+            update => update,
+            exit => this.removeExiting(exit, 'segment'))
+            .order();
+
+        this.panel.segmentSelection
+            .attr(SubSelectableObjectNameAttribute, (segment: BarChartDataPoint) => segment.measureIndex === undefined ? BarChartObjectNames.ColorSelector : BarChartObjectNames.Measures)
+            .attr(SubSelectableDisplayNameAttribute, (segment: BarChartDataPoint) => segment.series)
+            .classed(HtmlSubSelectableClass, options.formatMode)
+            .style("fill", (segment: BarChartDataPoint) => segment.color)
+            .style("stroke", (segment: BarChartDataPoint) => segment.strokeColor)
+            .style("stroke-width", (segment: BarChartDataPoint) => `${segment.strokeWidth}px`);
+
+        this.animate(this.panel.segmentSelection)
+            .attr("width", (segment: BarChartDataPoint) => getRect(segment).width)
+            .attr("y", (segment: BarChartDataPoint) => getRect(segment).y)
+            .attr("height", (segment: BarChartDataPoint) => getRect(segment).height)
+            .attr("x", (segment: BarChartDataPoint) => getRect(segment).x)
+            .style("opacity", 1);
+
+        this.tooltipServiceWrapper.addTooltip(this.panel.segmentSelection,
+            (segment: BarChartDataPoint) => this.getSegmentTooltipData(segment),
+            (segment: BarChartDataPoint) => segment.selectionId
+        );
+    }
+
+    private getSegments(): BarChartDataPoint[] {
+        return [].concat(...this.barDataPoints
+            .map((dataPoint: BarChartDataPoint) => dataPoint.segments || []));
+    }
+
+    /**
+     * Returns where a stack segment, or a bar of a cluster, is drawn in the plot.
+     */
+    private getSegmentRect(
+        segment: BarChartDataPoint,
+        xScale: ScaleBand<string>,
+        yScale: ScaleLinear<number, number>,
+        clusterScale: ScaleBand<number>
+    ): LabelBox {
+        const top: number = segment.stackStart + <number>segment.value;
+
+        return {
+            x: xScale(getCategoryKey(segment)) + (segment.measureIndex === undefined ? 0 : clusterScale(segment.measureIndex)),
+            y: yScale(top),
+            width: segment.measureIndex === undefined ? xScale.bandwidth() : clusterScale.bandwidth(),
+            height: yScale(segment.stackStart) - yScale(top)
+        };
+    }
+
+    /**
+     * Lays out the bars and stack segments of a panel past the canvas threshold as canvas
+     * marks; the markers were laid out with the cumulative line. The SVG joins of such a
+     * panel are empty. The marks are drawn when the selection state is synced at the end
+     * of the update.
+     */
+    private renderCanvas(
+        width: number,
+        height: number,
+        xScale: ScaleBand<string>,
+        yScale: ScaleLinear<number, number>
+    ) {
+        const panel: ParetoPanel = this.panel;
+        const opacity: number = this.formattingSettings.generalView.opacity.value / 100;
+        const clusterScale: ScaleBand<number> = this.createClusterScale(xScale);
+
+        [panel.barCanvas, panel.markerCanvas].forEach((canvas: Selection<any>) => {
+            d3Select(<Element>canvas.node().parentNode)
+                .style("display", panel.useCanvas ? null : "none")
+                .attr("width", width)
+                .attr("height", height);
+            if (!panel.useCanvas) {
+                // Release the bitmap of a panel that went back to SVG
+                resetCanvas(canvas.node(), 0, 0, 1);
+            }
+        });
+
+        // Every bar gets a mark, unpainted when split, so the keyboard focus can outline it
+        panel.canvasBars = !panel.useCanvas ? [] : this.barDataPoints.map((dataPoint: BarChartDataPoint) => ({
+            datum: dataPoint,
+            x: xScale(getCategoryKey(dataPoint)),
+            y: yScale(<number>dataPoint.value),
+            width: xScale.bandwidth(),
+            height: height - yScale(<number>dataPoint.value),
+            fill: dataPoint.segments ? "none" : dataPoint.color,
+            stroke: dataPoint.segments ? "none" : dataPoint.strokeColor,
+            strokeWidth: dataPoint.strokeWidth,
+            opacity
+        }));
+        panel.canvasSegments = !panel.useCanvas ? [] : this.getSegments().map((segment: BarChartDataPoint) => ({
+            datum: segment,
+            ...this.getSegmentRect(segment, xScale, yScale, clusterScale),
+            fill: segment.color,
+            stroke: segment.strokeColor,
+            strokeWidth: segment.strokeWidth,
+            opacity
+        }));
+        panel.canvasFocusIndex = Math.max(0, Math.min(panel.canvasFocusIndex, panel.dataPoints.length - 1));
+        panel.hoveredMark = undefined;
+
+        // The canvas is one option whose label follows the category the arrow keys move to
+        panel.barCanvas
+            .attr("tabindex", panel.useCanvas ? 0 : null)
+            .attr("role", panel.useCanvas ? "option" : null)
+            .attr("aria-label", panel.useCanvas && panel.dataPoints.length
+                ? this.getAriaLabel(panel.dataPoints[panel.canvasFocusIndex])
+                : null)
+            .on("focus blur", () => this.drawCanvas(panel, <ISelectionId[]>this.selectionManager.getSelectionIds()));
+
+        this.addCanvasTooltip(panel);
+    }
+
+    /**
+     * Draws the canvas marks of a panel in their selection state, and the focus outline
+     * while the canvas has the keyboard focus.
+     */
+    private drawCanvas(panel: ParetoPanel, selectionIds: ISelectionId[]) {
+        if (!panel.useCanvas) {
+            return;
         }
 
-        this.barSelection
-            .exit()
-            .remove();
-        this.handleClick(barSelectionMerged);
+        const config = ParetoChart.Config;
+        const cumulativeLine = this.formattingSettings.cumulativeLine;
+        const markerSize: number = cumulativeLine.markerSize.value;
+        const opacity: number = this.formattingSettings.generalView.opacity.value / 100;
+        const pixelRatio: number = window.devicePixelRatio || 1;
+        const applySelection = (marks: CanvasMark<BarChartDataPoint>[], markOpacity: number) => marks
+            .map((mark: CanvasMark<BarChartDataPoint>) => {
+                const style: SelectionStyle = this.theme.getSelectionStyle(
+                    this.isDataPointSelected(selectionIds, mark.datum),
+                    selectionIds.length > 0,
+                    markOpacity,
+                    config.solidOpacity,
+                    config.transparentOpacity
+                );
+                // Like the SVG bars, a split bar stays unpainted whatever its selection state
+                return style.stroke === undefined || mark.fill === "none"
+                    ? { ...mark, opacity: style.opacity }
+                    : { ...mark, opacity: style.opacity, stroke: style.stroke, strokeWidth: style.strokeWidth, strokeDasharray: style.strokeDasharray };
+            });
+
+        const barCanvas: HTMLCanvasElement = panel.barCanvas.node();
+        const width: number = +d3Select(<Element>barCanvas.parentNode).attr("width");
+        const height: number = +d3Select(<Element>barCanvas.parentNode).attr("height");
+
+        const barContext: CanvasRenderingContext2D = resetCanvas(barCanvas, width, height, pixelRatio);
+        drawRects(barContext, applySelection(panel.canvasBars.concat(panel.canvasSegments), opacity));
+        const focusedBar: CanvasMark<BarChartDataPoint> = panel.canvasBars[panel.canvasFocusIndex];
+        if (focusedBar && document.activeElement === barCanvas) {
+            drawFocus(barContext, focusedBar, this.theme.getFocusColor(config.focusColor));
+        }
+
+        const markerContext: CanvasRenderingContext2D = resetCanvas(panel.markerCanvas.node(), width, height, pixelRatio);
+        drawSymbols(
+            markerContext,
+            applySelection(panel.canvasMarkers, config.solidOpacity),
+            getSymbolType(<string>cumulativeLine.markerShape.value.value),
+            markerSize * markerSize
+        );
+    }
+
+    /**
+     * Returns the marker, segment or bar under the pointer on the canvas of a panel, with
+     * the tooltip it shows, undefined when there is none.
+     */
+    private findCanvasTarget(panel: ParetoPanel, event: MouseEvent): CanvasTarget | undefined {
+        const [x, y] = d3.pointer(event, panel.barCanvas.node());
+        const tolerance: number = ParetoChart.Config.canvasHitTolerance;
+
+        const marker: CanvasMark<BarChartDataPoint> = findMarkAt(panel.canvasMarkers, x, y, tolerance);
+        if (marker) {
+            return { mark: marker, getTooltipData: () => this.getMarkerTooltipData(marker.datum) };
+        }
+        const segment: CanvasMark<BarChartDataPoint> = findMarkAt(panel.canvasSegments, x, y, tolerance);
+        if (segment) {
+            return { mark: segment, getTooltipData: () => this.getSegmentTooltipData(segment.datum) };
+        }
+        const bar: CanvasMark<BarChartDataPoint> = findMarkAt(panel.canvasBars, x, y, tolerance);
+        if (bar) {
+            return { mark: bar, getTooltipData: () => this.getTooltipData(bar.datum) };
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Shows the tooltip of the mark under the pointer, the way the tooltip service wrapper
+     * does for the SVG elements.
+     */
+    private addCanvasTooltip(panel: ParetoPanel) {
+        const tooltipService = this.host.tooltipService;
+        if (!tooltipService.enabled()) {
+            return;
+        }
+
+        panel.barCanvas
+            .on("pointermove", (event: PointerEvent) => {
+                const target: CanvasTarget = panel.useCanvas ? this.findCanvasTarget(panel, event) : undefined;
+                if (!target) {
+                    if (panel.hoveredMark) {
+                        tooltipService.hide({ isTouchEvent: false, immediately: false });
+                    }
+                    panel.hoveredMark = undefined;
+                    return;
+                }
+
+                const tooltipOptions = {
+                    coordinates: [event.clientX, event.clientY],
+                    isTouchEvent: event.pointerType === "touch",
+                    dataItems: target.getTooltipData(),
+                    identities: [target.mark.datum.selectionId]
+                };
+                if (target.mark === panel.hoveredMark) {
+                    tooltipService.move(tooltipOptions);
+                } else {
+                    tooltipService.show(tooltipOptions);
+                }
+                panel.hoveredMark = target.mark;
+            })
+            .on("pointerleave", () => {
+                tooltipService.hide({ isTouchEvent: false, immediately: false });
+                panel.hoveredMark = undefined;
+            });
+    }
+
+    private createClusterScale(xScale: ScaleBand<string>): ScaleBand<number> {
+        return scaleBand<number>()
+            .domain(this.viewModel.measures.map((measure: BarChartMeasure, i: number) => i))
+            .range([0, xScale.bandwidth()])
+            .padding(ParetoChart.Config.clusterPadding);
+    }
+
+    /**
+     * Returns the horizontal extent of the bar of the sort measure, which is one bar of the
+     * cluster when several measures are bound.
+     */
+    private getBarBand(dataPoint: BarChartDataPoint, xScale: ScaleBand<string>): { x: number, width: number } {
+        if (this.viewModel.measures.length < 2) {
+            return { x: xScale(getCategoryKey(dataPoint)), width: xScale.bandwidth() };
+        }
+
+        const clusterScale: ScaleBand<number> = this.createClusterScale(xScale);
+        return {
+            x: xScale(getCategoryKey(dataPoint)) + clusterScale(this.viewModel.sortMeasureIndex),
+            width: clusterScale.bandwidth()
+        };
     }
 
     private removeEventHandlers(barSelectionMerged: d3Selection<SVGRectElement, any, any, any>) {
-        barSelectionMerged.on('click', null);
+        barSelectionMerged.on('click', null).on('keydown', null);
+        this.panel.markerSelection.on('click', null).on('keydown', null);
+        this.panel.segmentSelection.on('click', null);
+        this.panel.barCanvas.on('click', null).on('keydown', null);
         this.svg.on('click', null);
         this.svg.on('contextmenu', null);
     }
 
     private addEventHandlers(barSelectionMerged: d3Selection<SVGRectElement, any, any, any>) {
         this.handleBarClick(barSelectionMerged);
-        this.handleClick(barSelectionMerged);
+        this.handleKeyboardNavigation(this.panel, barSelectionMerged);
+        this.handleClick();
         this.handleContextMenu();
     }
 
@@ -619,17 +2115,77 @@ export class ParetoChart implements IVisual {
             .classed('hidden', !this.formattingSettings.directEditSettings.show.value)
             .classed(HtmlSubSelectableClass, this.formatMode && this.formattingSettings.directEditSettings.show.value)
             .attr(SubSelectableObjectNameAttribute, 'directEdit')
-            .attr(SubSelectableDisplayNameAttribute, 'Direct Edit')
+            .attr(SubSelectableDisplayNameAttribute, this.localize("Visual_DirectEdit"))
             .attr(SubSelectableDirectEditAttr, this.visualDirectEditSubSelection)
             .style('font-family', this.formattingSettings.directEditSettings.font.fontFamily.value)
-            .style('color', this.formattingSettings.directEditSettings.fontColor.value.value)
+            .style('color', this.theme.getForegroundColor(this.formattingSettings.directEditSettings.fontColor.value.value))
             .style('font-style', this.formattingSettings.directEditSettings.font.italic.value ? 'italic' : 'normal')
             .style('text-decoration', this.formattingSettings.directEditSettings.font.underline.value ? 'underline' : 'none')
             .style('font-weight', this.formattingSettings.directEditSettings.font.bold.value ? 'bold' : 'normal')
-            .style('right', this.formattingSettings.directEditSettings.position.value.value === 'Right' ? '12px' : '60px')
-            .style('background-color', this.formattingSettings.directEditSettings.background.value.value)
+            .style('right', this.formattingSettings.directEditSettings.position.value.value === 'Right'
+                ? `${12 + (this.isExportButtonVisible() ? ParetoChart.Config.exportButtonSpace : 0)}px`
+                : '60px')
+            .style('background-color', this.theme.getBackgroundColor(this.formattingSettings.directEditSettings.background.value.value))
             .style('font-size', `${this.formattingSettings.directEditSettings.font.fontSize.value}px`)
     }
+    /**
+     * Rotates, wraps or truncates the category tick labels according to the resolved label mode.
+     * Labels that may be shortened carry the full category name in a native title.
+     */
+    private formatXAxisLabels() {
+        const measurement: AxisLabelMeasurement = this.xAxisLabelMeasurement;
+        // d3-axis only sets these on enter, so reset what a previous mode changed
+        const labels: Selection<any> = this.panel.xAxis.selectAll('.tick text')
+            .attr("transform", null)
+            .attr("x", null)
+            .attr("dx", null)
+            .attr("dy", "0.71em")
+            .style("text-anchor", "middle");
+
+        switch (this.xAxisLabelMode) {
+            case AxisLabelMode.Rotate45:
+                labels
+                    .attr("transform", "rotate(-45)")
+                    .attr("dx", "-0.5em")
+                    .attr("dy", "0.15em")
+                    .style("text-anchor", "end");
+                ParetoChart.truncate(labels, measurement.maxLabelLength);
+                break;
+            case AxisLabelMode.Rotate90:
+                labels
+                    .attr("transform", "rotate(-90)")
+                    .attr("x", -9)
+                    .attr("y", 0)
+                    .attr("dy", "0.35em")
+                    .style("text-anchor", "end");
+                ParetoChart.truncate(labels, measurement.maxLabelLength);
+                break;
+            case AxisLabelMode.Wrap:
+                ParetoChart.wordBreak(labels, measurement.bandwidth, measurement.labelHeight * measurement.maxWrapLines);
+                break;
+            case AxisLabelMode.Truncate:
+                ParetoChart.truncate(labels, measurement.bandwidth);
+                break;
+        }
+
+        if (this.xAxisLabelMode !== AxisLabelMode.Horizontal) {
+            labels
+                .append("title")
+                .text((category: string) => category);
+        }
+    }
+
+    private static truncate(
+        textNodes: Selection<any, SVGElement>,
+        allowedWidth: number
+    ) {
+        textNodes.each(function () {
+            textMeasurementService.svgEllipsis(
+                this,
+                allowedWidth);
+        });
+    }
+
     private static wordBreak(
         textNodes: Selection<any, SVGElement>,
         allowedWidth: number,
@@ -644,29 +2200,143 @@ export class ParetoChart implements IVisual {
     }
 
     private handleBarClick(barSelectionMerged: Selection<any>) {
-        barSelectionMerged.on('click', (event: Event, datum: BarChartDataPoint) => {
+        // Markers on the cumulative line select the same category as their bar
+        const onClick = (event: Event, datum: BarChartDataPoint) => {
             // Allow selection only if the visual is rendered in a view that supports interactivity (e.g. Report)
             if (this.host.hostCapabilities.allowInteractions) {
-                const isCtrlPressed: boolean = (<MouseEvent>event).ctrlKey;
-
-                this.selectionManager
-                    .select(datum.selectionId, isCtrlPressed)
-                    .then((ids: ISelectionId[]) => {
-                        this.syncSelectionState(barSelectionMerged, ids);
-                    });
+                this.selectDataPoint(datum, (<MouseEvent>event).ctrlKey);
                 event.stopPropagation();
             }
+        };
+
+        barSelectionMerged.on('click', onClick);
+        this.panel.markerSelection.on('click', onClick);
+        this.panel.segmentSelection.on('click', onClick);
+
+        // On a canvas panel the click selects the mark under the pointer; a click between
+        // marks reaches the chart and clears the selection
+        const panel: ParetoPanel = this.panel;
+        panel.barCanvas.on('click', (event: MouseEvent) => {
+            const target: CanvasTarget = panel.useCanvas ? this.findCanvasTarget(panel, event) : undefined;
+            if (target) {
+                onClick(event, target.mark.datum);
+            }
+        });
+    }
+
+    private selectDataPoint(datum: BarChartDataPoint, isMultiSelect: boolean) {
+        // In drill mode the host drills into the clicked identity; remember it for the breadcrumbs.
+        // Adding to the selection never drills
+        this.pendingDrill = !isMultiSelect && this.canDrillDown ? datum.selectionId : undefined;
+
+        this.selectionManager
+            .select(getDataPointSelectionIds(datum), isMultiSelect)
+            .then((ids: ISelectionId[]) => {
+                this.syncSelectionState(ids);
+            });
+    }
+
+    /**
+     * Lets the keyboard walk the bars and cumulative markers of a panel. Each panel is one
+     * tab stop; the arrow keys move a roving tab index and Enter or Space selects, with
+     * Ctrl to add to the selection.
+     */
+    private handleKeyboardNavigation(panel: ParetoPanel, barSelectionMerged: Selection<any>) {
+        const onKeyDown = (event: KeyboardEvent, datum: BarChartDataPoint) => {
+            const position: FocusPosition = {
+                index: panel.dataPoints.indexOf(datum),
+                row: (<Element>event.currentTarget).classList.contains('marker') ? FocusRow.Markers : FocusRow.Bars
+            };
+
+            if (isSelectionKey(event.key)) {
+                if (this.host.hostCapabilities.allowInteractions) {
+                    this.selectDataPoint(datum, event.ctrlKey || event.metaKey);
+                }
+                event.preventDefault();
+                return;
+            }
+
+            const next: FocusPosition = getNextFocusPosition(
+                event.key,
+                position,
+                panel.dataPoints.length,
+                panel.markerSelection.size() > 0
+            );
+            if (next) {
+                this.moveFocus(panel, next);
+                event.preventDefault();
+            }
+        };
+
+        barSelectionMerged.on('keydown', onKeyDown);
+        panel.markerSelection.on('keydown', onKeyDown);
+
+        // A canvas panel is a single tab stop that moves its focus outline between the bars
+        panel.barCanvas.on('keydown', (event: KeyboardEvent) => {
+            if (!panel.useCanvas || !panel.dataPoints.length) {
+                return;
+            }
+
+            if (isSelectionKey(event.key)) {
+                if (this.host.hostCapabilities.allowInteractions) {
+                    this.selectDataPoint(panel.dataPoints[panel.canvasFocusIndex], event.ctrlKey || event.metaKey);
+                }
+                event.preventDefault();
+                return;
+            }
+
+            const next: FocusPosition = getNextFocusPosition(
+                event.key,
+                { index: panel.canvasFocusIndex, row: FocusRow.Bars },
+                panel.dataPoints.length,
+                false
+            );
+            if (next) {
+                panel.canvasFocusIndex = next.index;
+                panel.barCanvas.attr('aria-label', this.getAriaLabel(panel.dataPoints[next.index]));
+                this.drawCanvas(panel, <ISelectionId[]>this.selectionManager.getSelectionIds());
+                event.preventDefault();
+            }
         });
     }
 
-    private handleClick(barSelection: Selection<any>) {
+    private moveFocus(panel: ParetoPanel, position: FocusPosition) {
+        const target = <SVGElement>(position.row === FocusRow.Markers ? panel.markerSelection : panel.barSelection)
+            .nodes()[position.index];
+        if (!target) {
+            return;
+        }
+
+        panel.barSelection.attr('tabindex', -1);
+        panel.markerSelection.attr('tabindex', -1);
+        target.setAttribute('tabindex', '0');
+        target.focus();
+    }
+
+    private getChartAriaLabel(): string {
+        return this.localize("Visual_ChartAriaLabel", this.viewModel.measureName, this.viewModel.categoryName);
+    }
+
+    /**
+     * Returns what a screen reader announces for a bar or marker: the category, its value
+     * and the cumulative percentage up to it.
+     */
+    private getAriaLabel(dataPoint: BarChartDataPoint): string {
+        return [
+            dataPoint.category,
+            valueFormatter.format(dataPoint.value, dataPoint.format),
+            this.localize("Visual_CumulativePercentAriaLabel", this.formatPercent(dataPoint.cumulative))
+        ].join(", ");
+    }
+
+    private handleClick() {
         // Clear selection when clicking outside a bar
         this.svg.on('click', () => {
             if (this.host.hostCapabilities.allowInteractions) {
                 this.selectionManager
                     .clear()
                     .then(() => {
-                        this.syncSelectionState(barSelection, []);
+                        this.syncSelectionState([]);
                     });
             }
         });
@@ -677,8 +2347,14 @@ export class ParetoChart implements IVisual {
         this.svg.on('contextmenu', (event) => {
             const mouseEvent: MouseEvent = event;
             const eventTarget: EventTarget = mouseEvent.target;
-            const dataPoint: any = d3Select(<BaseType>eventTarget).datum();
-            this.selectionManager.showContextMenu(dataPoint ? dataPoint.selectionId : {}, {
+            const canvasPanel: ParetoPanel = this.panels.find((panel: ParetoPanel) => panel.barCanvas.node() === eventTarget);
+            const dataPoint: any = canvasPanel
+                ? this.findCanvasTarget(canvasPanel, mouseEvent)?.mark.datum
+                : d3Select(<BaseType>eventTarget).datum();
+            // "Drill down" in the context menu drills into the identity the menu was opened on
+            this.pendingDrill = this.canDrillDown ? dataPoint?.selectionId : undefined;
+            this.isContextMenuOpen = true;
+            this.selectionManager.showContextMenu(dataPoint?.selectionId || {}, {
                 x: mouseEvent.clientX,
                 y: mouseEvent.clientY
             });
@@ -686,37 +2362,88 @@ export class ParetoChart implements IVisual {
         });
     }
 
-    private syncSelectionState(
+    private syncSelectionState(selectionIds: ISelectionId[]): void {
+        if (!selectionIds) {
+            return;
+        }
+
+        this.panels.forEach((panel: ParetoPanel) => {
+            this.syncMarkerSelectionState(panel.markerSelection, selectionIds);
+            if (panel.barSelection) {
+                this.syncBarSelectionState(panel.barSelection, selectionIds);
+            }
+            if (panel.segmentSelection) {
+                this.syncBarSelectionState(panel.segmentSelection, selectionIds);
+            }
+            this.drawCanvas(panel, selectionIds);
+        });
+    }
+
+    private syncBarSelectionState(
         selection: Selection<BarChartDataPoint>,
         selectionIds: ISelectionId[]
     ): void {
-        if (!selection || !selectionIds) {
-            return;
-        }
+        const opacity: number = this.formattingSettings.generalView.opacity.value / 100;
+        // eslint-disable-next-line
+        const self: this = this;
+
+        // Split bars are drawn by their segments and stay unpainted
+        selection
+            .filter((barDataPoint: BarChartDataPoint) => !barDataPoint.segments)
+            .each(function (barDataPoint: BarChartDataPoint) {
+                const isSelected: boolean = self.isDataPointSelected(selectionIds, barDataPoint);
+
+                self.applySelectionStyle(d3Select(this), self.theme.getSelectionStyle(
+                    isSelected,
+                    selectionIds.length > 0,
+                    opacity,
+                    ParetoChart.Config.solidOpacity,
+                    ParetoChart.Config.transparentOpacity
+                ));
+                d3Select(this).attr("aria-selected", `${isSelected}`);
+            });
+    }
 
-        if (!selectionIds.length) {
-            const opacity: number = this.formattingSettings.generalView.opacity.value / 100;
-            selection
-                .style("fill-opacity", opacity)
-                .style("stroke-opacity", opacity);
+    private applySelectionStyle(element: Selection<any>, style: SelectionStyle) {
+        element
+            .style("fill-opacity", style.opacity)
+            .style("stroke-opacity", style.opacity);
+
+        // Without an outline the ones drawn in high-contrast mode are cleared, so they do not
+        // outlive it; markers fall back to their stroke attributes
+        const hasStroke: boolean = style.stroke !== undefined;
+        element
+            .style("stroke", hasStroke ? style.stroke : null)
+            .style("stroke-width", hasStroke ? `${style.strokeWidth}px` : null)
+            .style("stroke-dasharray", hasStroke ? style.strokeDasharray : null);
+    }
+
+    private syncMarkerSelectionState(markerSelection: Selection<any>, selectionIds: ISelectionId[]): void {
+        if (!markerSelection) {
             return;
         }
         // eslint-disable-next-line
         const self: this = this;
 
-        selection.each(function (barDataPoint: BarChartDataPoint) {
-            const isSelected: boolean = self.isSelectionIdInArray(selectionIds, barDataPoint.selectionId);
-
-            const opacity: number = isSelected
-                ? ParetoChart.Config.solidOpacity
-                : ParetoChart.Config.transparentOpacity;
+        markerSelection.each(function (dataPoint: BarChartDataPoint) {
+            const isSelected: boolean = self.isDataPointSelected(selectionIds, dataPoint);
 
-            d3Select(this)
-                .style("fill-opacity", opacity)
-                .style("stroke-opacity", opacity);
+            self.applySelectionStyle(d3Select(this), self.theme.getSelectionStyle(
+                isSelected,
+                selectionIds.length > 0,
+                ParetoChart.Config.solidOpacity,
+                ParetoChart.Config.solidOpacity,
+                ParetoChart.Config.transparentOpacity
+            ));
+            d3Select(this).attr("aria-selected", `${isSelected}`);
         });
     }
 
+    private isDataPointSelected(selectionIds: ISelectionId[], dataPoint: BarChartDataPoint): boolean {
+        return getDataPointSelectionIds(dataPoint)
+            .some((selectionId: ISelectionId) => this.isSelectionIdInArray(selectionIds, selectionId));
+    }
+
     private isSelectionIdInArray(selectionIds: ISelectionId[], selectionId: ISelectionId): boolean {
         if (!selectionIds || !selectionId) {
             return false;
@@ -741,8 +2468,16 @@ export class ParetoChart implements IVisual {
             switch (visualObject.objectName) {
                 case BarChartObjectNames.ColorSelector:
                     return this.getColorSelectorStyles(subSelections);
-                case BarChartObjectNames.EnableAxis:
-                    return this.getEnableAxisStyles();
+                case BarChartObjectNames.Measures:
+                    return this.getMeasureStyles(subSelections);
+                case BarChartObjectNames.AllOther:
+                    return this.getAllOtherStyles();
+                case BarChartObjectNames.CumulativeLine:
+                    return this.getCumulativeLineStyles();
+                case BarChartObjectNames.CategoryAxis:
+                case BarChartObjectNames.ValueAxis:
+                case BarChartObjectNames.PercentAxis:
+                    return this.getAxisStyles(<BarChartObjectNames>visualObject.objectName);
                 case BarChartObjectNames.DirectEdit:
                     return this.getDirectEditStyles();
             }
@@ -754,8 +2489,16 @@ export class ParetoChart implements IVisual {
             switch (visualObject.objectName) {
                 case BarChartObjectNames.ColorSelector:
                     return this.getColorSelectorShortcuts(subSelections);
-                case BarChartObjectNames.EnableAxis:
-                    return this.getEnableAxisShortcuts();
+                case BarChartObjectNames.Measures:
+                    return this.getMeasureShortcuts(subSelections);
+                case BarChartObjectNames.AllOther:
+                    return this.getAllOtherShortcuts();
+                case BarChartObjectNames.CumulativeLine:
+                    return this.getCumulativeLineShortcuts();
+                case BarChartObjectNames.CategoryAxis:
+                case BarChartObjectNames.ValueAxis:
+                case BarChartObjectNames.PercentAxis:
+                    return this.getAxisShortcuts(<BarChartObjectNames>visualObject.objectName);
                 case BarChartObjectNames.DirectEdit:
                     return this.getDirectEditShortcuts();
             }
@@ -778,7 +2521,7 @@ export class ParetoChart implements IVisual {
             {
                 type: VisualShortcutType.Navigate,
                 destinationInfo: { cardUid: colorSelectorReferences.cardUid },
-                label: 'Color'
+                label: this.localize("Visual_Color")
             }
         ];
     }
@@ -788,7 +2531,7 @@ export class ParetoChart implements IVisual {
         return {
             type: SubSelectionStylesType.Shape,
             fill: {
-                label: 'Fill',
+                label: this.localize("Visual_Fill"),
                 reference: {
                     ...colorSelectorReferences.fill,
                     selector
@@ -797,42 +2540,203 @@ export class ParetoChart implements IVisual {
         };
     }
 
-    private getEnableAxisStyles(): SubSelectionStyles {
+    private getMeasureShortcuts(subSelections: CustomVisualSubSelection[]): VisualSubSelectionShortcuts {
+        // Measure colors are saved on the measure, which the sub-selection carries as metadata
+        const selector = { metadata: <string>subSelections[0].metadata };
+        return [
+            {
+                type: VisualShortcutType.Reset,
+                relatedResetFormattingIds: [{
+                    ...measuresReferences.fill,
+                    selector
+                }],
+            },
+            {
+                type: VisualShortcutType.Navigate,
+                destinationInfo: { cardUid: measuresReferences.cardUid },
+                label: this.localize("Visual_Measures")
+            }
+        ];
+    }
+
+    private getMeasureStyles(subSelections: CustomVisualSubSelection[]): SubSelectionStyles {
+        const selector = { metadata: <string>subSelections[0].metadata };
+        return {
+            type: SubSelectionStylesType.Shape,
+            fill: {
+                label: this.localize("Visual_Fill"),
+                reference: {
+                    ...measuresReferences.fill,
+                    selector
+                },
+            },
+        };
+    }
+
+    private getAllOtherStyles(): SubSelectionStyles {
         return {
             type: SubSelectionStylesType.Shape,
             fill: {
+                label: this.localize("Visual_Fill"),
                 reference: {
-                    ...enableAxisReferences.fill
+                    ...allOtherReferences.fill
                 },
-                label: 'Enable Axis'
-            }
-        }
+            },
+        };
     }
 
-    private getEnableAxisShortcuts(): VisualSubSelectionShortcuts {
+    private getAllOtherShortcuts(): VisualSubSelectionShortcuts {
         return [
             {
                 type: VisualShortcutType.Reset,
                 relatedResetFormattingIds: [{
-                    ...enableAxisReferences.fill,
+                    ...allOtherReferences.fill,
+                }],
+                excludedResetFormattingIds: [{
+                    ...allOtherReferences.show,
+                }]
+            },
+            {
+                type: VisualShortcutType.Navigate,
+                destinationInfo: { cardUid: allOtherReferences.cardUid },
+                label: this.localize("Visual_AllOther")
+            }
+        ];
+    }
+
+    private getCumulativeLineStyles(): SubSelectionStyles {
+        return {
+            type: SubSelectionStylesType.Shape,
+            stroke: {
+                label: this.localize("Visual_Color"),
+                reference: {
+                    ...cumulativeLineReferences.fill
+                },
+            },
+            width: {
+                label: this.localize("Visual_Width"),
+                reference: {
+                    ...cumulativeLineReferences.strokeWidth
+                },
+            },
+            style: {
+                label: this.localize("Visual_Style"),
+                reference: {
+                    ...cumulativeLineReferences.dashStyle
+                },
+            },
+        };
+    }
+
+    private getCumulativeLineShortcuts(): VisualSubSelectionShortcuts {
+        return [
+            {
+                type: VisualShortcutType.Reset,
+                relatedResetFormattingIds: [
+                    cumulativeLineReferences.fill,
+                    cumulativeLineReferences.strokeWidth,
+                    cumulativeLineReferences.dashStyle
+                ]
+            },
+            {
+                type: VisualShortcutType.Toggle,
+                relatedToggledFormattingIds: [{
+                    ...cumulativeLineReferences.showMarkers
+                }],
+                ...cumulativeLineReferences.showMarkers,
+                disabledLabel: this.localize("Visual_ShowMarkers"),
+                enabledLabel: this.localize("Visual_HideMarkers")
+            },
+            {
+                type: VisualShortcutType.Toggle,
+                relatedToggledFormattingIds: [{
+                    ...cumulativeLineReferences.showDataLabels
                 }],
+                ...cumulativeLineReferences.showDataLabels,
+                disabledLabel: this.localize("Visual_ShowDataLabels"),
+                enabledLabel: this.localize("Visual_HideDataLabels")
+            },
+            {
+                type: VisualShortcutType.Navigate,
+                destinationInfo: { cardUid: cumulativeLineReferences.cardUid },
+                label: this.localize("Visual_CumulativeLine")
+            }
+        ];
+    }
+
+    private getAxisStyles(objectName: BarChartObjectNames): SubSelectionStyles {
+        const axisReferences: References = getAxisReferences(objectName);
+        return {
+            type: SubSelectionStylesType.Text,
+            fontFamily: {
+                reference: {
+                    ...axisReferences.fontFamily
+                },
+                label: this.localize("Visual_Font")
+            },
+            fontSize: {
+                reference: {
+                    ...axisReferences.fontSize
+                },
+                label: this.localize("Visual_Font")
+            },
+            bold: {
+                reference: {
+                    ...axisReferences.bold
+                },
+                label: this.localize("Visual_Font")
+            },
+            italic: {
+                reference: {
+                    ...axisReferences.italic
+                },
+                label: this.localize("Visual_Font")
+            },
+            underline: {
+                reference: {
+                    ...axisReferences.underline
+                },
+                label: this.localize("Visual_Font")
+            },
+            fontColor: {
+                reference: {
+                    ...axisReferences.fill
+                },
+                label: this.localize("Visual_FontColor")
+            }
+        };
+    }
+
+    private getAxisShortcuts(objectName: BarChartObjectNames): VisualSubSelectionShortcuts {
+        const axisReferences: References = getAxisReferences(objectName);
+        return [
+            {
+                type: VisualShortcutType.Reset,
+                relatedResetFormattingIds: [
+                    axisReferences.fill,
+                    axisReferences.fontFamily,
+                    axisReferences.fontSize,
+                    axisReferences.bold,
+                    axisReferences.italic,
+                    axisReferences.underline
+                ],
                 excludedResetFormattingIds: [{
-                    ...enableAxisReferences.show,
+                    ...axisReferences.show,
                 }]
             },
             {
                 type: VisualShortcutType.Toggle,
                 relatedToggledFormattingIds: [{
-                    ...enableAxisReferences.show
+                    ...axisReferences.show
                 }],
-                ...enableAxisReferences.show,
-                disabledLabel: 'Delete',
-                enabledLabel: 'Delete'
+                ...axisReferences.show,
+                disabledLabel: this.localize("Visual_Delete"),
+                enabledLabel: this.localize("Visual_Delete")
             },
             {
                 type: VisualShortcutType.Navigate,
-                destinationInfo: { cardUid: enableAxisReferences.cardUid },
-                label: 'EnableAxis'
+                destinationInfo: { cardUid: axisReferences.cardUid },
+                label: this.localize("Visual_Axis")
             }
         ];
     }
@@ -857,18 +2761,18 @@ export class ParetoChart implements IVisual {
                     ...directEditReferences.show,
                 }],
                 ...directEditReferences.show,
-                disabledLabel: 'Delete',
+                disabledLabel: this.localize("Visual_Delete"),
 
             },
             {
                 type: VisualShortcutType.Picker,
                 ...directEditReferences.position,
-                label: 'Position'
+                label: this.localize("Visual_Position")
             },
             {
                 type: VisualShortcutType.Navigate,
                 destinationInfo: { cardUid: directEditReferences.cardUid },
-                label: 'Direct edit'
+                label: this.localize("Visual_DirectEdit")
             }
         ];
     }
@@ -880,67 +2784,158 @@ export class ParetoChart implements IVisual {
                 reference: {
                     ...directEditReferences.fontFamily
                 },
-                label: 'font'
+                label: this.localize("Visual_Font")
             },
             bold: {
                 reference: {
                     ...directEditReferences.bold
                 },
-                label: 'font'
+                label: this.localize("Visual_Font")
             },
             italic: {
                 reference: {
                     ...directEditReferences.italic
                 },
-                label: 'font'
+                label: this.localize("Visual_Font")
             },
             underline: {
                 reference: {
                     ...directEditReferences.underline
                 },
-                label: 'font'
+                label: this.localize("Visual_Font")
             },
             fontSize: {
                 reference: {
                     ...directEditReferences.fontSize
                 },
-                label: 'font'
+                label: this.localize("Visual_Font")
             },
             fontColor: {
                 reference: {
                     ...directEditReferences.fontColor
                 },
-                label: 'fontColor'
+                label: this.localize("Visual_FontColor")
             },
             background: {
                 reference: {
                     objectName: 'directEdit',
                     propertyName: 'background'
                 },
-                label: 'background'
+                label: this.localize("Visual_Background")
             }
         };
     }
 
     public selectionIdCallback(e: Element): ISelectionId {
         const elementType: string = d3Select(e).attr(SubSelectableObjectNameAttribute);
+        const dataPoint: BarChartDataPoint = d3Select<Element, BarChartDataPoint>(e).datum();
         let selectionId: ISelectionId = undefined;
 
         switch (elementType) {
+            // Category colors are saved on the category alone and series colors on the
+            // series, so the pane and the on-object pickers write to the same selector
             case BarChartObjectNames.ColorSelector:
-                selectionId = d3Select<Element, BarChartDataPoint>(e).datum().selectionId;
+                selectionId = dataPoint.seriesSelectionId || dataPoint.categorySelectionId;
                 break;
         }
 
         return selectionId;
     }
 
+    /**
+     * Returns the query name of the measure a clustered bar stands for, the measure card
+     * saves its colors by it.
+     */
+    public subSelectionMetadataCallback(e: Element): string {
+        if (d3Select(e).attr(SubSelectableObjectNameAttribute) !== BarChartObjectNames.Measures) {
+            return undefined;
+        }
+
+        const segment: BarChartDataPoint = d3Select<Element, BarChartDataPoint>(e).datum();
+        return this.viewModel.measures[segment.measureIndex]?.queryName;
+    }
+
     private creatDirectEditElement(): Element {
         const element = document.createElement('div');
         element.setAttribute('class', 'direct-edit');
         return element;
     }
 
+    private createBreadcrumbElement(): Element {
+        const element = document.createElement('div');
+        element.setAttribute('class', 'breadcrumbs');
+        return element;
+    }
+
+    private createNoDataElement(): Element {
+        const element = document.createElement('div');
+        element.setAttribute('class', 'no-data hidden');
+        return element;
+    }
+
+    private createValueWarningElement(): Element {
+        const element = document.createElement('div');
+        element.setAttribute('class', 'value-warning hidden');
+        return element;
+    }
+
+    private createExportButtonElement(): Element {
+        const element = document.createElement('button');
+        element.setAttribute('class', 'export-button hidden');
+        element.textContent = "\u21E9";
+        element.addEventListener('click', (event: MouseEvent) => {
+            event.stopPropagation();
+            this.openExportPanel();
+        });
+        return element;
+    }
+
+    private createExportPanelElement(): Element {
+        const element = document.createElement('div');
+        element.setAttribute('class', 'export-panel hidden');
+        element.setAttribute('role', 'dialog');
+
+        const panel: Selection<any> = d3Select(element)
+            .on('keydown', (event: KeyboardEvent) => {
+                if (event.key === "Escape") {
+                    this.closeExportPanel();
+                }
+            });
+        const header: Selection<any> = panel
+            .append('div')
+            .classed('export-header', true);
+
+        header.append('span')
+            .classed('export-title', true);
+        header.selectAll('button.export-format')
+            .data([ExportFormat.Csv, ExportFormat.Json])
+            .join('button')
+            .classed('export-format', true)
+            .text((format: ExportFormat) => format.toUpperCase())
+            .on('click', (event: MouseEvent, format: ExportFormat) => {
+                this.exportFormat = format;
+                this.isCopyFailed = false;
+                this.renderExportPanel();
+            });
+        header.append('button')
+            .classed('export-download', true)
+            .on('click', () => this.downloadExport());
+        header.append('button')
+            .classed('export-copy', true)
+            .on('click', () => this.copyExport());
+        header.append('button')
+            .classed('export-close', true)
+            .on('click', () => this.closeExportPanel());
+
+        panel.append('p')
+            .classed('export-message', true);
+        panel.append('textarea')
+            .attr('readonly', true)
+            .attr('spellcheck', false);
+
+        return element;
+    }
+
     /**
      * Destroy runs when the visual is removed. Any cleanup that the visual needs to
      * do should be done here.
@@ -951,20 +2946,125 @@ export class ParetoChart implements IVisual {
         // Perform any cleanup tasks here
     }
 
-    private getTooltipData(value: any): VisualTooltipDataItem[] {
+    private getTooltipData(value: BarChartDataPoint): VisualTooltipDataItem[] {
         const formattedValue = valueFormatter.format(value.value, value.format);
-        return [{
+        const tooltipOptions = this.formattingSettings.tooltipOptions;
+        const tooltipData: VisualTooltipDataItem[] = [{
             displayName: value.category,
             value: formattedValue,
-            color: value.color,
-            header: "Cumulative %: " + value.  cumulative.toFixed(2)
+            color: value.color
+        }];
+
+        if (tooltipOptions.showRank.value) {
+            tooltipData.push({ displayName: this.localize("Visual_Rank"), value: `${value.rank}` });
+        }
+        if (tooltipOptions.showShare.value) {
+            tooltipData.push({ displayName: this.localize("Visual_ShareOfTotal"), value: this.formatPercent(value.share) });
+        }
+        if (tooltipOptions.showCumulativeShare.value) {
+            tooltipData.push({ displayName: this.localize("Visual_CumulativePercent"), value: this.formatPercent(value.cumulative) });
+        }
+        if (value.zone) {
+            tooltipData.push({ displayName: this.localize("Visual_ParetoZone"), value: value.zone });
+        }
+
+        (value.tooltipValues || []).forEach((tooltipValue: TooltipValue) => {
+            tooltipData.push({
+                displayName: tooltipValue.displayName,
+                value: valueFormatter.format(tooltipValue.value, tooltipValue.format)
+            });
+        });
+
+        if (value.otherMembers) {
+            tooltipData.push(...this.getOtherMembersTooltipData(value.otherMembers));
+        }
+
+        return tooltipData;
+    }
+
+    private getSegmentTooltipData(segment: BarChartDataPoint): VisualTooltipDataItem[] {
+        const tooltipData: VisualTooltipDataItem[] = [{
+            header: segment.category,
+            displayName: segment.series,
+            value: valueFormatter.format(segment.value, segment.format),
+            color: segment.color
+        }];
+
+        // The segment may belong to any panel, not only the one drawn last
+        const categoryDataPoint: BarChartDataPoint = [].concat(...this.panels.map((panel: ParetoPanel) => panel.dataPoints))
+            .filter((dataPoint: BarChartDataPoint) => dataPoint.segments?.indexOf(segment) > -1)[0];
+        if (segment.measureIndex !== undefined) {
+            const tooltipOptions = this.formattingSettings.tooltipOptions;
+            if (tooltipOptions.showShare.value) {
+                tooltipData.push({ displayName: this.localize("Visual_ShareOfTotal"), value: this.formatPercent(segment.share) });
+            }
+            if (tooltipOptions.showCumulativeShare.value) {
+                tooltipData.push({ displayName: this.localize("Visual_CumulativePercent"), value: this.formatPercent(segment.cumulative) });
+            }
+        } else if (categoryDataPoint) {
+            tooltipData.push({
+                displayName: this.localize("Visual_CategoryTotal"),
+                value: valueFormatter.format(categoryDataPoint.value, categoryDataPoint.format)
+            });
+        }
+
+        (segment.tooltipValues || []).forEach((tooltipValue: TooltipValue) => {
+            tooltipData.push({
+                displayName: tooltipValue.displayName,
+                value: valueFormatter.format(tooltipValue.value, tooltipValue.format)
+            });
+        });
+
+        return tooltipData;
+    }
+
+    private getMarkerTooltipData(value: BarChartDataPoint): VisualTooltipDataItem[] {
+        return [{
+            header: value.category,
+            displayName: this.localize("Visual_CumulativePercent"),
+            value: this.formatPercent(value.cumulative),
+            color: value.color
+        }, {
+            displayName: this.localize("Visual_RunningTotal"),
+            value: valueFormatter.format(value.runningTotal, value.format)
         }];
     }
 
+    /**
+     * Formats a percentage from 0 to 100 with the separators of the user's locale.
+     */
+    private formatPercent(percent: number, format: string = ParetoChart.Config.percentFormat): string {
+        return valueFormatter.format(percent / 100, format, false, this.locale);
+    }
+
+    private localize(key: string, ...args: (string | number)[]): string {
+        return getLocalizedString(this.localizationManager, key, ...args);
+    }
+
+    private getOtherMembersTooltipData(members: BarChartDataPoint[]): VisualTooltipDataItem[] {
+        const maxMembers: number = ParetoChart.Config.maxOtherTooltipMembers;
+        const tooltipData: VisualTooltipDataItem[] = members
+            .slice(0, maxMembers)
+            .map((member: BarChartDataPoint) => ({
+                displayName: member.category,
+                value: valueFormatter.format(member.value, member.format),
+                color: member.color
+            }));
+
+        if (members.length > maxMembers) {
+            tooltipData.push({
+                displayName: `+${members.length - maxMembers}`,
+                value: "..."
+            });
+        }
+
+        return tooltipData;
+    }
+
     private createHelpLinkElement(): Element {
         const linkElement = document.createElement("a");
         linkElement.textContent = "?";
-        linkElement.setAttribute("title", "Open documentation");
+        linkElement.setAttribute("title", this.localize("Visual_OpenDocumentation"));
         linkElement.setAttribute("class", "helpLink");
         linkElement.addEventListener("click", () => {
             this.host.launchUrl("https://microsoft.github.io/PowerBI-visuals/tutorials/building-bar-chart/adding-url-launcher-element-to-the-bar-chart/");
@@ -972,109 +3072,368 @@ export class ParetoChart implements IVisual {
         return linkElement;
     }
 
-    private handleLandingPage(options: VisualUpdateOptions) {
-        if (!options.dataViews || !options.dataViews.length) {
-            if (!this.isLandingPageOn) {
-                this.isLandingPageOn = true;
-                const SampleLandingPage: Element = this.createSampleLandingPage();
-                this.element.appendChild(SampleLandingPage);
+    /**
+     * Shows the landing page while no fields are bound and tears it down once they are.
+     * Returns whether the landing page is shown, in which case the chart is not drawn.
+     */
+    private handleLandingPage(options: VisualUpdateOptions): boolean {
+        const hasFields: boolean = options.dataViews?.[0]?.metadata?.columns?.length > 0;
+
+        if (!hasFields && !this.isLandingPageOn) {
+            this.isLandingPageOn = true;
+            const landingPage: Element = this.createLandingPage();
+            this.element.appendChild(landingPage);
+            this.LandingPage = d3Select(landingPage);
+        } else if (hasFields && this.isLandingPageOn) {
+            this.isLandingPageOn = false;
+            this.LandingPage.remove();
+        }
 
-                this.LandingPage = d3Select(SampleLandingPage);
-            }
+        this.svg.classed('hidden', !hasFields);
+        this.breadcrumbElement.classed('hidden', !hasFields);
+        this.valueWarningElement.classed('hidden', !hasFields);
+        this.noDataElement.classed('hidden', true);
+        this.exportButtonElement.classed('hidden', true);
+        this.isExportPanelOpen = this.isExportPanelOpen && hasFields;
+        this.exportPanelElement.classed('hidden', !this.isExportPanelOpen);
 
-        } else {
-            if (this.isLandingPageOn && !this.LandingPageRemoved) {
-                this.LandingPageRemoved = true;
-                this.LandingPage.remove();
-            }
-        }
+        return !hasFields;
     }
 
-    private createSampleLandingPage(): Element {
+    private createLandingPage(): Element {
         const div = document.createElement("div");
+        div.setAttribute("class", "landing-page");
 
         const header = document.createElement("h1");
-        header.textContent = "Sample Bar Chart Landing Page";
+        header.textContent = this.localize("LandingPage_Title");
         header.setAttribute("class", "LandingPage");
-        const p1 = document.createElement("a");
-        p1.setAttribute("class", "LandingPageHelpLink");
-        p1.textContent = "Learn more about Landing page";
-
-        p1.addEventListener("click", () => {
-            this.host.launchUrl("https://microsoft.github.io/PowerBI-visuals/docs/overview/");
-        });
+        const instructions = document.createElement("p");
+        instructions.textContent = this.localize("LandingPage_Instructions");
+        instructions.setAttribute("class", "LandingPageInstructions");
 
         div.appendChild(header);
-        div.appendChild(p1);
+        div.appendChild(instructions);
 
         return div;
     }
 
-    private getColorValue(color: Fill | string): string {
-        // Override color settings if in high contrast mode
-        if (this.host.colorPalette.isHighContrast) {
-            return this.host.colorPalette.foreground.value;
+    private isExportButtonVisible(): boolean {
+        return this.formattingSettings.generalView.showExportButton.value
+            && this.panels.some((panel: ParetoPanel) => panel.dataPoints.length > 0);
+    }
+
+    /**
+     * Shows the export button in the header and closes the export panel once there is
+     * nothing left to export.
+     */
+    private renderExportButton() {
+        const isVisible: boolean = this.isExportButtonVisible();
+
+        this.exportButtonElement
+            .classed('hidden', !isVisible)
+            .attr('title', this.localize("Visual_ExportData"))
+            .attr('aria-label', this.localize("Visual_ExportData"));
+        this.isExportPanelOpen = this.isExportPanelOpen && isVisible;
+    }
+
+    /**
+     * Fills the export panel with the current Pareto table, so it follows drilling and
+     * filtering while it is open. The download button is only offered where the host
+     * allows visuals to export files; elsewhere the text can be copied instead.
+     */
+    private renderExportPanel() {
+        this.exportPanelElement.classed('hidden', !this.isExportPanelOpen);
+        if (!this.isExportPanelOpen) {
+            return;
+        }
+
+        this.exportPanelElement.select('.export-title')
+            .text(this.localize("Visual_ExportData"));
+        this.exportPanelElement.selectAll('button.export-format')
+            .classed('selected', (format: ExportFormat) => format === this.exportFormat)
+            .attr('aria-pressed', (format: ExportFormat) => `${format === this.exportFormat}`);
+        this.exportPanelElement.select('button.export-download')
+            .classed('hidden', !this.isDownloadAllowed)
+            .text(this.localize("Visual_Download"));
+        this.exportPanelElement.select('button.export-copy')
+            .text(this.localize("Visual_Copy"));
+        this.exportPanelElement.select('button.export-close')
+            .text(this.localize("Visual_Close"));
+        this.exportPanelElement.select('.export-message')
+            .classed('hidden', this.isDownloadAllowed && !this.isCopyFailed)
+            .attr('role', this.isCopyFailed ? 'alert' : null)
+            .text(this.localize(this.isCopyFailed ? "Visual_CopyFailed" : "Visual_DownloadUnavailable"));
+
+        const textArea = <HTMLTextAreaElement>this.exportPanelElement.select('textarea').node();
+        const content: string = this.serializeExport(this.exportFormat);
+        // Leave the text alone when it did not change, so a resize keeps the user's selection
+        if (textArea.value !== content) {
+            textArea.value = content;
+        }
+    }
+
+    private openExportPanel() {
+        this.isExportPanelOpen = true;
+        this.isCopyFailed = false;
+        this.renderExportPanel();
+        (<HTMLElement>this.exportPanelElement.select('button.export-close').node()).focus();
+
+        const downloadService = this.host.downloadService;
+        if (!downloadService) {
+            this.isDownloadAllowed = false;
+            this.renderExportPanel();
+            return;
         }
+        downloadService.exportStatus().then(
+            (status: PrivilegeStatus) => {
+                this.isDownloadAllowed = status === PrivilegeStatus.Allowed;
+                this.renderExportPanel();
+            },
+            () => {
+                this.isDownloadAllowed = false;
+                this.renderExportPanel();
+            });
+    }
+
+    private closeExportPanel() {
+        this.isExportPanelOpen = false;
+        this.renderExportPanel();
+        (<HTMLElement>this.exportButtonElement.node()).focus();
+    }
+
+    /**
+     * Hands the table to the host's download service. When the host refuses the file the
+     * panel falls back to the copyable text.
+     */
+    private downloadExport() {
+        const format: ExportFormat = this.exportFormat;
+        this.host.downloadService
+            .exportVisualsContent(
+                this.serializeExport(format),
+                `${ParetoChart.Config.exportFileName}.${format}`,
+                format,
+                this.getChartAriaLabel())
+            .then(
+                () => undefined,
+                () => {
+                    this.isDownloadAllowed = false;
+                    this.renderExportPanel();
+                });
+    }
+
+    /**
+     * Copies the table with the Clipboard API. Hosts that sandbox the visual may not grant
+     * it, so the selected text is copied the legacy way instead, and the panel tells the
+     * user to copy it by hand when that is blocked as well.
+     */
+    private copyExport() {
+        const textArea = <HTMLTextAreaElement>this.exportPanelElement.select('textarea').node();
+        const copied: Promise<void> = navigator.clipboard
+            ? navigator.clipboard.writeText(textArea.value)
+            : Promise.reject();
+        copied.then(
+            () => this.setCopyFailed(false),
+            () => this.setCopyFailed(!this.copyExportSelection(textArea)));
+    }
 
-        // If plain string, just return it
-        if (typeof (color) === 'string') {
-            return color;
+    private copyExportSelection(textArea: HTMLTextAreaElement): boolean {
+        textArea.focus();
+        textArea.select();
+        try {
+            return document.execCommand("copy");
+        } catch {
+            return false;
         }
-        // Otherwise, extract string representation from Fill type object
-        return color.solid.color;
     }
 
-    private initAverageLine() {
-        this.averageLine = this.svg
-            .append('g')
-            .classed('averageLine', true);
+    private setCopyFailed(isCopyFailed: boolean) {
+        this.isCopyFailed = isCopyFailed;
+        this.renderExportPanel();
+    }
+
+    /**
+     * Serializes the Pareto table of every panel, with the drill path, threshold and
+     * excluded values it was computed from.
+     */
+    private serializeExport(format: ExportFormat): string {
+        const context: ExportContext = {
+            categoryName: this.viewModel.categoryName,
+            measureName: this.viewModel.measureName,
+            panelName: this.viewModel.panelName,
+            drillPath: this.drillPath,
+            vitalFewThreshold: this.formattingSettings.vitalFew.threshold.value,
+            excluded: this.viewModel.excluded
+        };
+        const rows = createExportRows(this.panels);
+
+        return format === ExportFormat.Json
+            ? toJson(rows, context)
+            : toCsv(rows, context, {
+                rank: this.localize("Visual_Rank"),
+                percentOfTotal: this.localize("Visual_PercentOfTotal"),
+                cumulativePercent: this.localize("Visual_CumulativePercent"),
+                runningTotal: this.localize("Visual_RunningTotal"),
+                vitalFew: this.localize("Visual_VitalFew")
+            });
+    }
+
+    /**
+     * Replaces the chart with a message when the fields are bound but the filters leave
+     * no rows to draw. The breadcrumbs stay so the user can drill back up.
+     */
+    private renderNoData() {
+        const hasData: boolean = this.panels.length > 0;
+
+        this.svg.classed('hidden', !hasData);
+        this.noDataElement
+            .classed('hidden', hasData)
+            .style('top', `${this.topElementsHeight}px`)
+            .text(this.localize("NoData_Message"));
+    }
+
+    private initAnalyticsLines(panel: ParetoPanel) {
+        ParetoChart.AnalyticsLineNames.forEach((name: string) => {
+            const analyticsLine: Selection<SVGElement> = panel.plotArea
+                .append('g')
+                .classed('analyticsLine', true)
+                .classed(name, true);
+
+            analyticsLine.append('line')
+                .classed('analyticsLineStroke', true);
+
+            analyticsLine.append('text')
+                .classed('analyticsLineLabel', true);
+
+            panel.analyticsLines[name] = analyticsLine;
+        });
+    }
 
-        this.averageLine.append('line')
-            .attr('id', 'averageLine');
+    private handleAnalyticsLinesUpdate(height: number, width: number, yScale: ScaleLinear<number, number>) {
+        const settings = this.formattingSettings;
 
-        this.averageLine.append('text')
-            .attr('id', 'averageLineLabel');
+        this.handleAnalyticsLineUpdate(settings.averageLine, this.panel.average, height, width, yScale);
+        this.handleAnalyticsLineUpdate(settings.medianLine, this.panel.median, height, width, yScale);
+        this.handleAnalyticsLineUpdate(settings.percentileLine, this.panel.percentile, height, width, yScale);
+        this.handleAnalyticsLineUpdate(settings.constantLine, settings.constantLine.lineValue.value, height, width, yScale);
     }
 
-    private handleAverageLineUpdate(height: number, width: number, yScale: ScaleLinear<number, number>) {
-        const average = this.calculateAverage();
+    private handleAnalyticsLineUpdate(
+        card: AnalyticsLineCardSettings,
+        value: number,
+        height: number,
+        width: number,
+        yScale: ScaleLinear<number, number>
+    ) {
+        const analyticsLine: Selection<SVGElement> = this.panel.analyticsLines[card.name];
         const fontSize = Math.min(height, width) * ParetoChart.Config.xAxisFontMultiplier;
-        const chosenColor = this.getColorValue(this.formattingSettings.averageLine.fill.value.value);
+        const chosenColor = this.theme.getForegroundColor(card.fill.value.value);
         // If there's no room to place label above line, place it below
-        const labelYOffset = fontSize * ((yScale(average) > fontSize * 1.5) ? -0.5 : 1.5);
+        const labelYOffset = fontSize * ((yScale(value) > fontSize * 1.5) ? -0.5 : 1.5);
+        const formattedValue: string = valueFormatter.format(value, this.viewModel.measureFormat);
 
-        this.averageLine
+        analyticsLine
             .style("font-size", fontSize)
-            .style("display", (this.formattingSettings.averageLine.show.value) ? "initial" : "none")
-            .attr("transform", "translate(0, " + Math.round(yScale(average)) + ")");
+            .style("display", (card.show.value && this.barDataPoints.length) ? "initial" : "none")
+            .attr("transform", "translate(0, " + Math.round(yScale(value)) + ")");
 
-        this.averageLine.select("#averageLine")
+        analyticsLine.select(".analyticsLineStroke")
             .style("stroke", chosenColor)
             .style("stroke-width", "3px")
-            .style("stroke-dasharray", "6,6")
+            .style("stroke-dasharray", getDashArray(<string>card.dashStyle.value.value))
             .attr("x1", 0)
-            .attr("x1", "" + width);
+            .attr("x2", width);
 
-        this.averageLine.select("#averageLineLabel")
-            .text("Average: " + average.toFixed(2))
+        analyticsLine.select(".analyticsLineLabel")
+            .text(card.labelText.value ? `${card.labelText.value}: ${formattedValue}` : formattedValue)
             .attr("transform", "translate(0, " + labelYOffset + ")")
-            .style("fill", this.formattingSettings.averageLine.showDataLabel.value ? chosenColor : "none");
+            .style("fill", card.showDataLabel.value ? chosenColor : "none");
+    }
+
+    private initVitalFew(panel: ParetoPanel) {
+        panel.vitalFew = panel.plotArea
+            .append('g')
+            .classed('vitalFew', true);
+
+        panel.vitalFew.append('line')
+            .classed('thresholdLine', true);
+
+        panel.vitalFew.append('line')
+            .classed('thresholdCut', true);
+
+        panel.vitalFew.append('text')
+            .classed('thresholdLabel', true);
+    }
+
+    private handleVitalFewUpdate(
+        height: number,
+        width: number,
+        xScale: ScaleBand<string>,
+        yScaleRight: ScaleLinear<number, number>,
+        vitalFewCount: number
+    ) {
+        const vitalFew = this.formattingSettings.vitalFew;
+        const threshold: number = vitalFew.threshold.value;
+        const thresholdY: number = Math.round(yScaleRight(threshold));
+        const cutX: number = this.getThresholdCrossingX(xScale, threshold);
+        const fontSize = Math.min(height, width) * ParetoChart.Config.xAxisFontMultiplier;
+        const chosenColor = this.theme.getForegroundColor(vitalFew.fill.value.value);
+
+        this.panel.vitalFew
+            .style("font-size", fontSize)
+            .style("display", (vitalFew.show.value && this.barDataPoints.length) ? "initial" : "none");
+
+        this.panel.vitalFew.select(".thresholdLine")
+            .style("stroke", chosenColor)
+            .style("stroke-width", "2px")
+            .style("stroke-dasharray", "4,4")
+            .attr("x1", 0)
+            .attr("x2", width)
+            .attr("y1", thresholdY)
+            .attr("y2", thresholdY);
+
+        this.panel.vitalFew.select(".thresholdCut")
+            .style("stroke", chosenColor)
+            .style("stroke-width", "2px")
+            .style("stroke-dasharray", "4,4")
+            .attr("x1", cutX)
+            .attr("x2", cutX)
+            .attr("y1", thresholdY)
+            .attr("y2", height);
+
+        this.panel.vitalFew.select(".thresholdLabel")
+            .text(this.localize(
+                "Visual_VitalFewLabel",
+                vitalFewCount,
+                this.barDataPoints.length,
+                this.formatPercent(threshold, ParetoChart.Config.cumulativeLabelFormat)
+            ))
+            .attr("x", cutX + fontSize / 2)
+            .attr("y", thresholdY - fontSize / 2)
+            .style("fill", vitalFew.showDataLabel.value ? chosenColor : "none");
     }
 
-    private calculateAverage(): number {
-        if (this.barDataPoints.length === 0) {
+    /**
+     * Returns the x position where the cumulative curve reaches the threshold,
+     * interpolating between the two markers around the crossing.
+     */
+    private getThresholdCrossingX(xScale: ScaleBand<string>, threshold: number): number {
+        if (!this.barDataPoints.length) {
             return 0;
         }
 
-        let t = 0;
+        let previousX: number = xScale(getCategoryKey(this.barDataPoints[0]));
+        let previousCumulative = 0;
 
-        this.barDataPoints.forEach((value: BarChartDataPoint) => {
-            t += <number>value.value;
-        });
-
-        console.log(t)
+        for (const dataPoint of this.barDataPoints) {
+            const x: number = xScale(getCategoryKey(dataPoint)) + xScale.bandwidth();
+            if (dataPoint.cumulative >= threshold) {
+                return previousX + (x - previousX) * (threshold - previousCumulative) / (dataPoint.cumulative - previousCumulative);
+            }
+            previousX = x;
+            previousCumulative = dataPoint.cumulative;
+        }
 
-        return t / this.barDataPoints.length;
+        return previousX;
     }
 
     
@@ -0,0 +1,179 @@
+import { BarChartDataPoint } from "./paretoChart";
+import { DrillPathItem } from "./drilldown";
+import { ExcludedValue } from "./valuePolicy";
+
+export const enum ExportFormat {
+    Csv = "csv",
+    Json = "json"
+}
+
+/**
+ * One row of the exported Pareto table.
+ *
+ * @interface
+ * @property {string} panel              - Small multiple the category is drawn in, if any.
+ * @property {number} rank               - 1-based position of the category in the Pareto order.
+ * @property {string} category           - Category, or the label of the "All other" bucket.
+ * @property {number} value              - Value of the bar.
+ * @property {number} percentOfTotal     - Percentage of the panel total the category makes up.
+ * @property {number} cumulativePercent  - Running cumulative percentage up to the category.
+ * @property {number} runningTotal       - Sum of the values up to and including the category.
+ * @property {boolean} vitalFew          - Whether the category falls before the vital few threshold.
+ * @property {string[]} otherCategories  - Categories merged into the "All other" bucket.
+ */
+export interface ExportRow {
+    panel?: string;
+    rank: number;
+    category: string;
+    value: number;
+    percentOfTotal: number;
+    cumulativePercent: number;
+    runningTotal: number;
+    vitalFew: boolean;
+    otherCategories?: string[];
+}
+
+/**
+ * What the exported rows were computed from.
+ *
+ * @interface
+ * @property {string} categoryName         - Display name of the category level the bars are drawn for.
+ * @property {string} measureName          - Display name of the measure the categories are ordered by.
+ * @property {string} panelName            - Display name of the Small multiples field, undefined without one.
+ * @property {DrillPathItem[]} drillPath   - Categories drilled into to reach the current level.
+ * @property {number} vitalFewThreshold    - Cumulative percentage the vital few add up to.
+ * @property {ExcludedValue[]} excluded    - Values the Exclude policy left out of the chart.
+ */
+export interface ExportContext {
+    categoryName: string;
+    measureName: string;
+    panelName: string;
+    drillPath: DrillPathItem[];
+    vitalFewThreshold: number;
+    excluded: ExcludedValue[];
+}
+
+/**
+ * Localized CSV headers of the computed columns. The category, measure, panel and drill
+ * level columns are headed by the display names of their fields.
+ */
+export interface ExportHeaders {
+    rank: string;
+    percentOfTotal: string;
+    cumulativePercent: string;
+    runningTotal: string;
+    vitalFew: string;
+}
+
+const CsvLineSeparator: string = "\r\n";
+const CsvFormulaPrefixes: string[] = ["=", "+", "-", "@", "\t", "\r"];
+
+/**
+ * Returns the rows of the Pareto table in display order, panel by panel.
+ *
+ * @function
+ * @param {Array} panels - Value of the Small multiples field and ordered data points of every panel.
+ */
+export function createExportRows(panels: { value: string, dataPoints: BarChartDataPoint[] }[]): ExportRow[] {
+    const rows: ExportRow[] = [];
+
+    panels.forEach((panel) => {
+        panel.dataPoints.forEach((dataPoint: BarChartDataPoint) => {
+            rows.push({
+                panel: panel.value,
+                rank: dataPoint.rank,
+                category: dataPoint.category,
+                value: <number>dataPoint.value,
+                percentOfTotal: dataPoint.share,
+                cumulativePercent: dataPoint.cumulative,
+                runningTotal: dataPoint.runningTotal,
+                vitalFew: !!dataPoint.isVitalFew,
+                otherCategories: dataPoint.otherMembers?.map((member: BarChartDataPoint) => member.category)
+            });
+        });
+    });
+
+    return rows;
+}
+
+/**
+ * Quotes a CSV field when it holds a separator, a quote or a line break. Text that a
+ * spreadsheet would read as a formula is prefixed with an apostrophe.
+ *
+ * @function
+ * @param {string | number | boolean} value - Field value.
+ */
+function escapeCsvValue(value: string | number | boolean): string {
+    if (value === undefined || value === null) {
+        return "";
+    }
+    if (typeof value !== "string") {
+        return `${value}`;
+    }
+
+    const text: string = CsvFormulaPrefixes.indexOf(value.charAt(0)) !== -1 ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes the rows to CSV. The drill path is repeated on every row, one column per
+ * level drilled through, so the file can be filtered and joined like any other table.
+ *
+ * @function
+ * @param {ExportRow[]} rows          - Rows of the Pareto table.
+ * @param {ExportContext} context     - Fields and drill path the rows were computed from.
+ * @param {ExportHeaders} headers     - Localized headers of the computed columns.
+ */
+export function toCsv(rows: ExportRow[], context: ExportContext, headers: ExportHeaders): string {
+    const hasPanels: boolean = context.panelName !== undefined;
+    const header: string[] = context.drillPath
+        .map((item: DrillPathItem) => item.levelName)
+        .concat(hasPanels ? [context.panelName] : [])
+        .concat([
+            headers.rank,
+            context.categoryName,
+            context.measureName,
+            headers.percentOfTotal,
+            headers.cumulativePercent,
+            headers.runningTotal,
+            headers.vitalFew
+        ]);
+
+    const lines: string[][] = rows.map((row: ExportRow) => context.drillPath
+        .map((item: DrillPathItem) => escapeCsvValue(item.label))
+        .concat(hasPanels ? [escapeCsvValue(row.panel)] : [])
+        .concat([
+            escapeCsvValue(row.rank),
+            escapeCsvValue(row.category),
+            escapeCsvValue(row.value),
+            escapeCsvValue(row.percentOfTotal),
+            escapeCsvValue(row.cumulativePercent),
+            escapeCsvValue(row.runningTotal),
+            escapeCsvValue(row.vitalFew)
+        ]));
+
+    return [header.map(escapeCsvValue)]
+        .concat(lines)
+        .map((line: string[]) => line.join(","))
+        .join(CsvLineSeparator);
+}
+
+/**
+ * Serializes the rows to JSON together with the fields, drill path, threshold and
+ * excluded values they were computed from.
+ *
+ * @function
+ * @param {ExportRow[]} rows          - Rows of the Pareto table.
+ * @param {ExportContext} context     - Fields and drill path the rows were computed from.
+ */
+export function toJson(rows: ExportRow[], context: ExportContext): string {
+    return JSON.stringify({
+        category: context.categoryName,
+        measure: context.measureName,
+        smallMultiples: context.panelName,
+        drillPath: context.drillPath.map((item: DrillPathItem) => ({ level: item.levelName, category: item.label })),
+        vitalFewThreshold: context.vitalFewThreshold,
+        excluded: context.excluded,
+        rows
+    }, null, 2);
+}
@@ -0,0 +1,67 @@
+import { BarChartDataPoint } from "./paretoChart";
+
+export const enum SortDirection {
+    Descending = "Descending",
+    Ascending = "Ascending",
+    None = "None"
+}
+
+export const enum TieBreak {
+    Category = "Category",
+    SourceOrder = "SourceOrder"
+}
+
+/**
+ * Returns a numeric representation of a data point value used for ordering.
+ * Values that are not numbers are ordered as zero.
+ *
+ * @function
+ * @param {BarChartDataPoint} dataPoint - Data point to read the value from.
+ */
+function getSortValue(dataPoint: BarChartDataPoint): number {
+    const value = <number>dataPoint.value;
+    return typeof value === "number" && isFinite(value) ? value : 0;
+}
+
+function compareByTieBreak(a: BarChartDataPoint, b: BarChartDataPoint, tieBreak: TieBreak): number {
+    if (tieBreak === TieBreak.Category) {
+        const byCategory = a.category.localeCompare(b.category);
+        if (byCategory !== 0) {
+            return byCategory;
+        }
+    }
+
+    return a.index - b.index;
+}
+
+/**
+ * Orders data points for the Pareto view. Returns a new array, the data points
+ * themselves (including selectionId and index) are not modified.
+ *
+ * @function
+ * @param {BarChartDataPoint[]} dataPoints - Data points in data view order.
+ * @param {SortDirection} direction        - Direction to sort values in.
+ * @param {TieBreak} tieBreak              - How to order data points with equal values.
+ */
+export function orderDataPoints(
+    dataPoints: BarChartDataPoint[],
+    direction: SortDirection,
+    tieBreak: TieBreak
+): BarChartDataPoint[] {
+    const ordered: BarChartDataPoint[] = dataPoints.slice();
+
+    if (direction === SortDirection.None) {
+        return ordered;
+    }
+
+    const sign: number = direction === SortDirection.Ascending ? 1 : -1;
+
+    return ordered.sort((a: BarChartDataPoint, b: BarChartDataPoint) => {
+        const byValue = getSortValue(a) - getSortValue(b);
+        if (byValue !== 0) {
+            return sign * byValue;
+        }
+
+        return compareByTieBreak(a, b, tieBreak);
+    });
+}
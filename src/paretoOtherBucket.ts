@@ -0,0 +1,171 @@
+import powerbiVisualsApi from "powerbi-visuals-api";
+import powerbi = powerbiVisualsApi;
+
+import ISelectionId = powerbi.visuals.ISelectionId;
+
+import { BarChartDataPoint } from "./paretoChart";
+
+export const enum OtherBucketMode {
+    TopN = "TopN",
+    CumulativePercent = "CumulativePercent"
+}
+
+/**
+ * Key the "All other" bucket is drawn and joined by. Its label is chosen by the user, so
+ * it could match a real category; no category label holds a NUL character.
+ */
+export const OtherBucketKey: string = "\u0000AllOther";
+
+/**
+ * Options used to collapse the long tail of categories.
+ *
+ * @interface
+ * @property {OtherBucketMode} mode - Whether the cut is made after N categories or at a cumulative percentage.
+ * @property {number} topN          - Number of categories kept when mode is TopN.
+ * @property {number} cutoff        - Cumulative percentage after which categories are merged.
+ * @property {string} label         - Category name of the synthetic data point.
+ * @property {string} color         - Color of the synthetic data point.
+ */
+export interface OtherBucketOptions {
+    mode: OtherBucketMode;
+    topN: number;
+    cutoff: number;
+    label: string;
+    color: string;
+}
+
+function getNumericValue(dataPoint: BarChartDataPoint): number {
+    const value = <number>dataPoint.value;
+    return typeof value === "number" && isFinite(value) ? value : 0;
+}
+
+/**
+ * Returns how many of the ordered data points stay visible before the bucket starts.
+ *
+ * @function
+ * @param {BarChartDataPoint[]} dataPoints - Ordered data points.
+ * @param {OtherBucketOptions} options     - Bucket options.
+ */
+function getKeptCount(dataPoints: BarChartDataPoint[], options: OtherBucketOptions): number {
+    if (options.mode === OtherBucketMode.TopN) {
+        return Math.max(1, Math.floor(options.topN));
+    }
+
+    const total: number = dataPoints.reduce((sum, dataPoint) => sum + getNumericValue(dataPoint), 0);
+    if (total === 0) {
+        return dataPoints.length;
+    }
+
+    let cumulative = 0;
+    for (let i = 0; i < dataPoints.length; i++) {
+        cumulative += getNumericValue(dataPoints[i]) / total * 100;
+        if (cumulative >= options.cutoff) {
+            return i + 1;
+        }
+    }
+
+    return dataPoints.length;
+}
+
+/**
+ * Merges the stack segments, or the bars of each measure, of the collapsed data points
+ * into one per series or measure, so the bucket is drawn like the other bars.
+ *
+ * @function
+ * @param {BarChartDataPoint[]} members - Data points merged into the bucket.
+ * @param {string} label                - Category name of the bucket.
+ */
+function mergeSegments(members: BarChartDataPoint[], label: string): BarChartDataPoint[] {
+    const merged: BarChartDataPoint[] = [];
+    const mergedByKey: Map<string, BarChartDataPoint> = new Map();
+
+    members.forEach((member: BarChartDataPoint) => {
+        (member.segments || []).forEach((segment: BarChartDataPoint) => {
+            const key: string = `${segment.measureIndex}|${segment.series}`;
+            if (!mergedByKey.has(key)) {
+                const mergedSegment: BarChartDataPoint = {
+                    ...segment,
+                    value: 0,
+                    category: label,
+                    selectionId: null,
+                    index: -1,
+                    tooltipValues: [],
+                    otherMembers: []
+                };
+                mergedByKey.set(key, mergedSegment);
+                merged.push(mergedSegment);
+            }
+
+            const mergedSegment: BarChartDataPoint = mergedByKey.get(key);
+            mergedSegment.value = <number>mergedSegment.value + getNumericValue(segment);
+            mergedSegment.otherMembers.push(segment);
+        });
+    });
+
+    let stackStart = 0;
+    merged
+        .filter((segment: BarChartDataPoint) => segment.measureIndex === undefined)
+        .forEach((segment: BarChartDataPoint) => {
+            segment.stackStart = stackStart;
+            stackStart += <number>segment.value;
+        });
+
+    return merged;
+}
+
+/**
+ * Collapses the data points after the Top N or the cumulative cutoff into one synthetic
+ * "All other" data point placed at the end. The tail is only collapsed when it holds
+ * more than one category.
+ *
+ * @function
+ * @param {BarChartDataPoint[]} dataPoints - Ordered data points.
+ * @param {OtherBucketOptions} options     - Bucket options.
+ */
+export function collapseLongTail(dataPoints: BarChartDataPoint[], options: OtherBucketOptions): BarChartDataPoint[] {
+    const keptCount: number = getKeptCount(dataPoints, options);
+    if (dataPoints.length - keptCount < 2) {
+        return dataPoints;
+    }
+
+    const kept: BarChartDataPoint[] = dataPoints.slice(0, keptCount);
+    const members: BarChartDataPoint[] = dataPoints.slice(keptCount);
+
+    kept.push({
+        value: members.reduce((sum, dataPoint) => sum + getNumericValue(dataPoint), 0),
+        category: options.label,
+        color: options.color,
+        strokeColor: members[0].strokeColor,
+        strokeWidth: members[0].strokeWidth,
+        selectionId: null,
+        index: -1,
+        format: members[0].format,
+        otherMembers: members,
+        segments: members[0].segments ? mergeSegments(members, options.label) : undefined,
+    });
+
+    return kept;
+}
+
+/**
+ * Returns every selection id a data point stands for.
+ *
+ * @function
+ * @param {BarChartDataPoint} dataPoint - Regular or synthetic data point.
+ */
+export function getDataPointSelectionIds(dataPoint: BarChartDataPoint): ISelectionId[] {
+    return dataPoint.otherMembers
+        ? dataPoint.otherMembers.map(member => member.selectionId)
+        : [dataPoint.selectionId];
+}
+
+/**
+ * Returns the key a bar is placed on the category axis and joined by: its category, or
+ * a key of its own for the "All other" bucket and its segments.
+ *
+ * @function
+ * @param {BarChartDataPoint} dataPoint - Regular or synthetic data point.
+ */
+export function getCategoryKey(dataPoint: BarChartDataPoint): string {
+    return dataPoint.otherMembers ? OtherBucketKey : dataPoint.category;
+}
@@ -0,0 +1,114 @@
+import { BarChartDataPoint } from "./paretoChart";
+
+export const enum BarColorMode {
+    Category = "category",
+    ParetoZone = "paretoZone"
+}
+
+export const enum ParetoZone {
+    A = "A",
+    B = "B",
+    C = "C"
+}
+
+/**
+ * Sets the rank, the share of total, the running total and the running cumulative
+ * percentage on every data point, in their current order.
+ *
+ * @function
+ * @param {BarChartDataPoint[]} dataPoints - Ordered data points.
+ * @param {number} total                   - Sum of all data point values.
+ */
+export function applyCumulativeShares(dataPoints: BarChartDataPoint[], total: number): void {
+    let cumulative = 0;
+    let runningTotal = 0;
+
+    dataPoints.forEach((dataPoint: BarChartDataPoint, i: number) => {
+        runningTotal += <number>dataPoint.value;
+        dataPoint.rank = i + 1;
+        dataPoint.runningTotal = runningTotal;
+        dataPoint.share = total ? <number>dataPoint.value / total * 100 : 0;
+        cumulative = cumulative + dataPoint.share;
+        dataPoint.cumulative = cumulative;
+    });
+}
+
+/**
+ * Sets the share of total and the running cumulative percentage on the bars of every
+ * measure when several measures are compared. Each measure is accumulated against its
+ * own total, in the category order set by the sort measure. Returns the total of every
+ * measure, by measure index.
+ *
+ * @function
+ * @param {BarChartDataPoint[]} dataPoints - Ordered data points whose segments are measure bars.
+ */
+export function applyMeasureShares(dataPoints: BarChartDataPoint[]): number[] {
+    const totals: number[] = [];
+    const cumulatives: number[] = [];
+    const getMeasureBars = (dataPoint: BarChartDataPoint) => (dataPoint.segments || [])
+        .filter((segment: BarChartDataPoint) => segment.measureIndex !== undefined);
+
+    dataPoints.forEach((dataPoint: BarChartDataPoint) => {
+        getMeasureBars(dataPoint).forEach((bar: BarChartDataPoint) => {
+            totals[bar.measureIndex] = (totals[bar.measureIndex] || 0) + <number>bar.value;
+        });
+    });
+
+    dataPoints.forEach((dataPoint: BarChartDataPoint) => {
+        getMeasureBars(dataPoint).forEach((bar: BarChartDataPoint) => {
+            const total: number = totals[bar.measureIndex];
+            bar.share = total ? <number>bar.value / total * 100 : 0;
+            cumulatives[bar.measureIndex] = (cumulatives[bar.measureIndex] || 0) + bar.share;
+            bar.cumulative = cumulatives[bar.measureIndex];
+        });
+    });
+
+    return totals;
+}
+
+/**
+ * Flags the "vital few" data points: every category up to and including the one
+ * where the cumulative curve reaches the threshold. Returns how many were flagged.
+ *
+ * @function
+ * @param {BarChartDataPoint[]} dataPoints - Ordered data points with cumulative shares applied.
+ * @param {number} threshold               - Cumulative percentage, 0 to 100.
+ */
+export function markVitalFew(dataPoints: BarChartDataPoint[], threshold: number): number {
+    let vitalFewCount = 0;
+    let reached = false;
+
+    dataPoints.forEach((dataPoint: BarChartDataPoint) => {
+        dataPoint.isVitalFew = !reached;
+        if (!reached) {
+            vitalFewCount++;
+            reached = dataPoint.cumulative >= threshold;
+        }
+    });
+
+    return vitalFewCount;
+}
+
+/**
+ * Sorts the data points into A, B and C classes. Like the vital few, a class runs up to
+ * and including the category where the cumulative curve reaches its threshold: A up to
+ * the first threshold, B up to the second one and C for the rest.
+ *
+ * @function
+ * @param {BarChartDataPoint[]} dataPoints - Ordered data points with cumulative shares applied.
+ * @param {number} thresholdA              - Cumulative percentage closing the A class, 0 to 100.
+ * @param {number} thresholdB              - Cumulative percentage closing the B class, at least thresholdA.
+ */
+export function markParetoZones(dataPoints: BarChartDataPoint[], thresholdA: number, thresholdB: number): void {
+    let zone: ParetoZone = ParetoZone.A;
+
+    dataPoints.forEach((dataPoint: BarChartDataPoint) => {
+        dataPoint.zone = zone;
+        if (zone === ParetoZone.A && dataPoint.cumulative >= thresholdA) {
+            zone = ParetoZone.B;
+        }
+        if (zone === ParetoZone.B && dataPoint.cumulative >= thresholdB) {
+            zone = ParetoZone.C;
+        }
+    });
+}
@@ -0,0 +1,490 @@
+import powerbiVisualsApi from "powerbi-visuals-api";
+import powerbi = powerbiVisualsApi;
+
+import { BarChartSettingsModel } from "./barChartSettingsModel";
+import { BarChartDataPoint, BarChartMeasure, BarChartSeries } from "./paretoChart";
+import { calculateAverage, calculateMedian, calculatePercentile } from "./analyticsLines";
+import { getCategoryLabel, getHierarchyColumns, getLeafCategory } from "./drilldown";
+import { getValue, getCategoricalObjectValue } from "./objectEnumerationUtility";
+import { orderDataPoints, SortDirection, TieBreak } from "./paretoOrdering";
+import { collapseLongTail, OtherBucketMode } from "./paretoOtherBucket";
+import { applyCumulativeShares, applyMeasureShares, BarColorMode, markParetoZones, markVitalFew, ParetoZone } from "./paretoThreshold";
+import { groupByPanel, PanelGroup } from "./smallMultiples";
+import { applyValuePolicy, ExcludedValue, ValidationResult, ValuePolicy } from "./valuePolicy";
+import { ThemeService } from "./themeService";
+
+import DataView = powerbi.DataView;
+import DataViewCategorical = powerbi.DataViewCategorical;
+import DataViewCategoryColumn = powerbi.DataViewCategoryColumn;
+import DataViewValueColumn = powerbi.DataViewValueColumn;
+import DataViewValueColumnGroup = powerbi.DataViewValueColumnGroup;
+import DataViewValueColumns = powerbi.DataViewValueColumns;
+import Fill = powerbi.Fill;
+import ISelectionId = powerbi.visuals.ISelectionId;
+import IVisualHost = powerbi.extensibility.visual.IVisualHost;
+
+/**
+ * Computed data of one Pareto panel. Every panel has its own ordering, cumulative line,
+ * threshold and analytics lines.
+ *
+ * @interface
+ * @property {string} value                   - Value of the Small multiples field, undefined for a single panel.
+ * @property {BarChartDataPoint[]} dataPoints - Ordered data points of the panel.
+ * @property {number} total                   - Sum of the panel's values.
+ * @property {number[]} measureTotals         - Sum of the values of every compared measure, by measure index.
+ * @property {number} vitalFewCount           - Number of categories up to the vital few threshold.
+ * @property {number} average                 - Average of the category values, "All other" members included.
+ * @property {number} median                  - Median of the category values.
+ * @property {number} percentile              - Percentile of the category values chosen in the percentile line card.
+ */
+export interface ParetoPanelModel {
+    value: string;
+    dataPoints: BarChartDataPoint[];
+    total: number;
+    measureTotals: number[];
+    vitalFewCount: number;
+    average: number;
+    median: number;
+    percentile: number;
+}
+
+/**
+ * Everything the visual draws, computed from one data view and the formatting settings.
+ *
+ * @interface
+ * @property {ParetoPanelModel[]} panels   - One panel per small multiple, none without data.
+ * @property {BarChartSeries[]} series     - Series the bars are stacked by.
+ * @property {BarChartMeasure[]} measures  - Measures compared side by side.
+ * @property {number} sortMeasureIndex     - Measure the categories are ordered and accumulated by.
+ * @property {ExcludedValue[]} excluded    - Values the value policy left out.
+ * @property {string} categoryName         - Display name of the category level the bars are drawn for.
+ * @property {string} measureName          - Display name of the sort measure.
+ * @property {string} measureFormat        - Format string of the sort measure.
+ * @property {string} seriesName           - Display name of the Series field.
+ * @property {string} panelName            - Display name of the Small multiples field.
+ */
+export interface ParetoViewModel {
+    panels: ParetoPanelModel[];
+    series: BarChartSeries[];
+    measures: BarChartMeasure[];
+    sortMeasureIndex: number;
+    excluded: ExcludedValue[];
+    categoryName: string;
+    measureName: string;
+    measureFormat: string;
+    seriesName: string;
+    panelName: string;
+}
+
+/**
+ * Returns the series the bars are stacked by, one per value of the Series field.
+ *
+ * @function
+ * @param {DataView} dataView    - Data view the visual was updated with.
+ * @param {IVisualHost} host     - Host that creates the selection ids.
+ * @param {ThemeService} theme   - Theme that resolves the series colors.
+ */
+function createSeries(dataView: DataView, host: IVisualHost, theme: ThemeService): BarChartSeries[] {
+    const values: DataViewValueColumns = dataView?.categorical?.values;
+
+    // Values are only grouped when a field is bound to the Series role
+    if (!values?.source) {
+        return [];
+    }
+
+    return values.grouped().map((group: DataViewValueColumnGroup) => {
+        const name: string = `${group.name}`;
+        const defaultColor: Fill = {
+            solid: {
+                color: theme.getPaletteColor(name),
+            }
+        };
+
+        return {
+            name,
+            color: theme.getDataColor(getValue<Fill>(group.objects, 'colorSelector', 'fill', defaultColor).solid.color),
+            selectionId: host.createSelectionIdBuilder()
+                .withSeries(values, group)
+                .createSelectionId()
+        };
+    });
+}
+
+/**
+ * Returns the measures compared side by side, empty when a Series field is bound.
+ *
+ * @function
+ * @param {DataView} dataView    - Data view the visual was updated with.
+ * @param {ThemeService} theme   - Theme that resolves the measure colors.
+ */
+function createMeasures(dataView: DataView, theme: ThemeService): BarChartMeasure[] {
+    const values: DataViewValueColumns = dataView?.categorical?.values;
+
+    // Several measures are only allowed without a Series field
+    if (!values || values.source) {
+        return [];
+    }
+
+    return values
+        .filter((column: DataViewValueColumn) => column.source.roles?.measure)
+        .map((column: DataViewValueColumn) => {
+            const defaultColor: Fill = {
+                solid: {
+                    color: theme.getPaletteColor(column.source.queryName),
+                }
+            };
+
+            return {
+                name: column.source.displayName,
+                queryName: column.source.queryName,
+                color: theme.getDataColor(getValue<Fill>(column.source.objects, 'measures', 'fill', defaultColor).solid.color),
+                format: column.source.format
+            };
+        });
+}
+
+/**
+ * Creates the cluster of a category: one bar per measure, in the order the measures are bound.
+ * The bars select their category, measures have no identity of their own.
+ */
+function createClusters(
+    measureColumns: DataViewValueColumn[],
+    dataPoint: BarChartDataPoint,
+    measures: BarChartMeasure[]
+): BarChartDataPoint[] {
+    return measureColumns.map((column: DataViewValueColumn, measureIndex: number) => {
+        return {
+            color: measures[measureIndex].color,
+            strokeColor: dataPoint.strokeColor,
+            strokeWidth: dataPoint.strokeWidth,
+            selectionId: dataPoint.selectionId,
+            value: column.values[dataPoint.index],
+            category: dataPoint.category,
+            panel: dataPoint.panel,
+            index: dataPoint.index,
+            format: measures[measureIndex].format,
+            series: measures[measureIndex].name,
+            stackStart: 0,
+            measureIndex,
+        };
+    });
+}
+
+/**
+ * Splits the bar of a category into one segment per series, stacked in series order.
+ * Every value, blank ones included, is left to the value policy, which also drops the
+ * segments that come to nothing.
+ */
+function createSegments(
+    categorical: DataViewCategorical,
+    dataPoint: BarChartDataPoint,
+    series: BarChartSeries[],
+    host: IVisualHost
+): BarChartDataPoint[] {
+    const segments: BarChartDataPoint[] = [];
+
+    categorical.values.grouped().forEach((group: DataViewValueColumnGroup, seriesIndex: number) => {
+        const measure = group.values.filter(column => column.source.roles?.measure)[0];
+        if (!measure) {
+            return;
+        }
+
+        const selectionIdBuilder = host.createSelectionIdBuilder();
+        categorical.categories.forEach((column: DataViewCategoryColumn) => {
+            selectionIdBuilder.withCategory(column, dataPoint.index);
+        });
+
+        segments.push({
+            color: series[seriesIndex].color,
+            strokeColor: dataPoint.strokeColor,
+            strokeWidth: dataPoint.strokeWidth,
+            selectionId: selectionIdBuilder.withSeries(categorical.values, group).createSelectionId(),
+            seriesSelectionId: series[seriesIndex].selectionId,
+            value: measure.values[dataPoint.index],
+            category: dataPoint.category,
+            panel: dataPoint.panel,
+            index: dataPoint.index,
+            format: dataPoint.format,
+            series: series[seriesIndex].name,
+            tooltipValues: group.values
+                .filter(column => column.source.roles?.Tooltips)
+                .map((column: DataViewValueColumn) => ({
+                    displayName: column.source.displayName,
+                    value: column.values[dataPoint.index],
+                    format: column.source.format,
+                })),
+        });
+    });
+
+    return segments;
+}
+
+/**
+ * Returns one data point per row of the data view, in data view order, with the bar
+ * segments of every series or measure.
+ */
+function createSelectorDataPoints(
+    dataView: DataView,
+    host: IVisualHost,
+    theme: ThemeService,
+    series: BarChartSeries[],
+    measures: BarChartMeasure[],
+    sortMeasureIndex: number
+): BarChartDataPoint[] {
+    const barChartDataPoints: BarChartDataPoint[] = []
+
+    if (!dataView
+        || !dataView.categorical
+        || !dataView.categorical.categories
+        || !dataView.categorical.categories[0]?.source
+        || !dataView.categorical.values
+    ) {
+        return barChartDataPoints;
+    }
+
+    const categorical = dataView.categorical;
+    const hierarchyColumns = getHierarchyColumns(categorical.categories);
+    const category = getLeafCategory(hierarchyColumns);
+    const panelColumn = categorical.categories.filter(column => column.source.roles?.smallMultiples)[0];
+    const measureColumns = categorical.values.filter(column => column.source.roles?.measure);
+    const dataValue = measureColumns[sortMeasureIndex] || measureColumns[0];
+    const tooltipColumns = categorical.values.filter(column => column.source.roles?.Tooltips);
+
+    if (!dataValue || !category) {
+        return barChartDataPoints;
+    }
+
+    const strokeColor: string = theme.getStrokeColor();
+
+    const strokeWidth: number = theme.getStrokeWidth();
+
+    for (let i = 0, len = Math.max(category.values.length, dataValue.values.length); i < len; i++) {
+        const color: string = getColumnColorByIndex(category, i, theme);
+
+        // Every expanded level and the small multiple are part of the identity, so selections keep their scope
+        const selectionIdBuilder = host.createSelectionIdBuilder();
+        categorical.categories.forEach((column: DataViewCategoryColumn) => {
+            selectionIdBuilder.withCategory(column, i);
+        });
+        const selectionId: ISelectionId = selectionIdBuilder.createSelectionId();
+
+        // Colors are saved per category, so one color applies in every small multiple
+        const categorySelectionIdBuilder = host.createSelectionIdBuilder();
+        hierarchyColumns.forEach((column: DataViewCategoryColumn) => {
+            categorySelectionIdBuilder.withCategory(column, i);
+        });
+
+        const dataPoint: BarChartDataPoint = {
+            color,
+            strokeColor,
+            strokeWidth,
+            selectionId,
+            categorySelectionId: categorySelectionIdBuilder.createSelectionId(),
+            value: dataValue.values[i],
+            category: getCategoryLabel(hierarchyColumns, i),
+            panel: panelColumn ? `${panelColumn.values[i]}` : undefined,
+            index: i,
+            format: dataValue.objects ? <string>dataValue.objects[i].general.formatString : null,
+            tooltipValues: tooltipColumns.map((column: DataViewValueColumn) => ({
+                displayName: column.source.displayName,
+                value: column.values[i],
+                format: column.source.format,
+            })),
+        };
+
+        // Stacked bars are ordered and accumulated by the category total, which the value
+        // policy sums from the segments once their values are checked
+        if (series.length) {
+            dataPoint.segments = createSegments(categorical, dataPoint, series, host);
+            dataPoint.tooltipValues = [];
+        } else if (measures.length > 1) {
+            dataPoint.segments = createClusters(measureColumns, dataPoint, measures);
+        }
+
+        barChartDataPoints.push(dataPoint);
+    }
+
+    return barChartDataPoints;
+}
+
+function getColumnColorByIndex(
+    category: DataViewCategoryColumn,
+    index: number,
+    theme: ThemeService,
+): string {
+    const defaultColor: Fill = {
+        solid: {
+            color: theme.getPaletteColor(`${category.values[index]}`),
+        }
+    };
+
+    return theme.getDataColor(getCategoricalObjectValue<Fill>(
+        category,
+        index,
+        'colorSelector',
+        'fill',
+        defaultColor
+    ).solid.color);
+}
+
+/**
+ * Returns the index of the measure saved as sort measure, the first one when none is
+ * saved or it is no longer bound.
+ */
+function getSortMeasureIndex(measures: BarChartMeasure[], dataView: DataView): number {
+    const savedSortMeasure: string = getValue<string>(dataView?.metadata?.objects, 'measures', 'sortMeasure', undefined);
+
+    return Math.max(0, measures
+        .map((measure: BarChartMeasure) => measure.queryName)
+        .indexOf(savedSortMeasure));
+}
+
+function collapseOtherBucket(dataPoints: BarChartDataPoint[], settings: BarChartSettingsModel, theme: ThemeService): BarChartDataPoint[] {
+    const allOther = settings.allOther;
+    if (!allOther.show.value) {
+        return dataPoints;
+    }
+
+    return collapseLongTail(dataPoints, {
+        mode: <OtherBucketMode>allOther.mode.value.value,
+        topN: allOther.topN.value,
+        cutoff: allOther.cutoff.value,
+        label: allOther.label.value,
+        color: theme.getDataColor(allOther.fill.value.value),
+    });
+}
+
+/**
+ * Colors the bars by their A, B or C class when the data colors card asks for it. The
+ * "All other" bucket keeps the color of its own card.
+ */
+function applyParetoZones(dataPoints: BarChartDataPoint[], settings: BarChartSettingsModel, theme: ThemeService): void {
+    const colorSelector = settings.colorSelector;
+    if (colorSelector.colorBy.value.value !== BarColorMode.ParetoZone) {
+        return;
+    }
+
+    const thresholdA: number = colorSelector.zoneAThreshold.value;
+    markParetoZones(dataPoints, thresholdA, Math.max(thresholdA, colorSelector.zoneBThreshold.value));
+
+    const colors = {
+        [ParetoZone.A]: colorSelector.zoneAFill.value.value,
+        [ParetoZone.B]: colorSelector.zoneBFill.value.value,
+        [ParetoZone.C]: colorSelector.zoneCFill.value.value
+    };
+    dataPoints
+        .filter((dataPoint: BarChartDataPoint) => !dataPoint.otherMembers)
+        .forEach((dataPoint: BarChartDataPoint) => {
+            dataPoint.color = theme.getDataColor(colors[dataPoint.zone]);
+        });
+}
+
+/**
+ * Flags the vital few data points and, when highlighting is on, recolors bars by zone,
+ * unless they are colored by Pareto zone. The "All other" bucket keeps the color of its
+ * own card. Returns how many categories make up the threshold.
+ */
+function applyVitalFew(dataPoints: BarChartDataPoint[], settings: BarChartSettingsModel, theme: ThemeService): number {
+    const vitalFew = settings.vitalFew;
+    const vitalFewCount: number = markVitalFew(dataPoints, vitalFew.threshold.value);
+    const isColoredByZone: boolean = settings.colorSelector.colorBy.value.value === BarColorMode.ParetoZone;
+
+    if (vitalFew.show.value && vitalFew.highlightBars.value && !isColoredByZone) {
+        dataPoints
+            .filter((dataPoint: BarChartDataPoint) => !dataPoint.otherMembers)
+            .forEach((dataPoint: BarChartDataPoint) => {
+                dataPoint.color = theme.getDataColor(dataPoint.isVitalFew
+                    ? vitalFew.vitalFewFill.value.value
+                    : vitalFew.trivialManyFill.value.value);
+            });
+    }
+
+    return vitalFewCount;
+}
+
+/**
+ * Returns the values of every category of a panel, including the ones merged into the
+ * "All other" bucket, so the analytics lines do not depend on the bucket.
+ */
+function getLeafValues(dataPoints: BarChartDataPoint[]): number[] {
+    const values: number[] = [];
+
+    dataPoints.forEach((dataPoint: BarChartDataPoint) => {
+        (dataPoint.otherMembers || [dataPoint]).forEach((leaf: BarChartDataPoint) => {
+            values.push(<number>leaf.value);
+        });
+    });
+
+    return values;
+}
+
+/**
+ * Orders the data points of one panel, collapses its long tail and computes its own
+ * cumulative shares, vital few and analytics values.
+ */
+function createPanelModel(group: PanelGroup, settings: BarChartSettingsModel, theme: ThemeService): ParetoPanelModel {
+    const dataPoints: BarChartDataPoint[] = collapseOtherBucket(orderDataPoints(
+        group.dataPoints,
+        <SortDirection>settings.sorting.direction.value.value,
+        <TieBreak>settings.sorting.tieBreak.value.value
+    ), settings, theme);
+    const total: number = dataPoints.reduce((sum: number, dataPoint: BarChartDataPoint) => sum + <number>dataPoint.value, 0);
+    applyCumulativeShares(dataPoints, total);
+    const measureTotals: number[] = applyMeasureShares(dataPoints);
+    applyParetoZones(dataPoints, settings, theme);
+    const values: number[] = getLeafValues(dataPoints);
+
+    return {
+        value: group.value,
+        dataPoints,
+        total,
+        measureTotals,
+        vitalFewCount: applyVitalFew(dataPoints, settings, theme),
+        average: calculateAverage(values),
+        median: calculateMedian(values),
+        percentile: calculatePercentile(values, settings.percentileLine.percentile.value)
+    };
+}
+
+/**
+ * Builds the Pareto model of a data view: validates the values, splits them into small
+ * multiples and orders, buckets and accumulates every panel. It does not touch the DOM,
+ * so everything drawn, exported or announced comes from the returned model.
+ *
+ * @function
+ * @param {DataView} dataView                 - Data view the visual was updated with.
+ * @param {BarChartSettingsModel} settings    - Formatting settings populated from the same data view.
+ * @param {IVisualHost} host                  - Host that creates the selection ids.
+ * @param {ThemeService} theme                - Theme that resolves the colors.
+ */
+export function buildViewModel(
+    dataView: DataView,
+    settings: BarChartSettingsModel,
+    host: IVisualHost,
+    theme: ThemeService
+): ParetoViewModel {
+    const categorical: DataViewCategorical = dataView?.categorical;
+    const series: BarChartSeries[] = createSeries(dataView, host, theme);
+    const measures: BarChartMeasure[] = createMeasures(dataView, theme);
+    const sortMeasureIndex: number = getSortMeasureIndex(measures, dataView);
+    const validation: ValidationResult = applyValuePolicy(
+        createSelectorDataPoints(dataView, host, theme, series, measures, sortMeasureIndex),
+        <ValuePolicy>settings.invalidValues.policy.value.value
+    );
+    const measureColumn: DataViewValueColumn = categorical?.values
+        ?.filter((column: DataViewValueColumn) => column.source.roles?.measure)[sortMeasureIndex];
+
+    return {
+        panels: groupByPanel(validation.dataPoints).map((group: PanelGroup) => createPanelModel(group, settings, theme)),
+        series,
+        measures,
+        sortMeasureIndex,
+        excluded: validation.excluded,
+        categoryName: getLeafCategory(getHierarchyColumns(categorical?.categories || []))?.source.displayName,
+        measureName: measureColumn?.source.displayName,
+        measureFormat: measureColumn?.source.format,
+        seriesName: categorical?.values?.source?.displayName,
+        panelName: categorical?.categories
+            ?.filter((column: DataViewCategoryColumn) => column.source.roles?.smallMultiples)[0]?.source.displayName
+    };
+}
@@ -0,0 +1,98 @@
+import { BarChartDataPoint } from "./paretoChart";
+
+/**
+ * Data points of one small multiple.
+ *
+ * @interface
+ * @property {string} value                   - Value of the Small multiples field, undefined without one.
+ * @property {BarChartDataPoint[]} dataPoints - Data points of the panel, in data view order.
+ */
+export interface PanelGroup {
+    value: string;
+    dataPoints: BarChartDataPoint[];
+}
+
+/**
+ * Size and arrangement of the small multiples grid.
+ *
+ * @interface
+ * @property {number} rows       - Number of rows of panels.
+ * @property {number} columns    - Number of columns of panels.
+ * @property {number} cellWidth  - Width of one panel.
+ * @property {number} cellHeight - Height of one panel.
+ */
+export interface GridLayout {
+    rows: number;
+    columns: number;
+    cellWidth: number;
+    cellHeight: number;
+}
+
+/**
+ * Splits the data points by the value of the Small multiples field, keeping the panels in
+ * the order their values first appear. Without the field all data points form one panel;
+ * without data points there is no panel.
+ *
+ * @function
+ * @param {BarChartDataPoint[]} dataPoints - Data points of every panel.
+ */
+export function groupByPanel(dataPoints: BarChartDataPoint[]): PanelGroup[] {
+    const groups: PanelGroup[] = [];
+    const groupsByValue: Map<string, PanelGroup> = new Map();
+
+    dataPoints.forEach((dataPoint: BarChartDataPoint) => {
+        if (!groupsByValue.has(dataPoint.panel)) {
+            const group: PanelGroup = { value: dataPoint.panel, dataPoints: [] };
+            groupsByValue.set(dataPoint.panel, group);
+            groups.push(group);
+        }
+        groupsByValue.get(dataPoint.panel).dataPoints.push(dataPoint);
+    });
+
+    return groups;
+}
+
+/**
+ * Arranges the panels in a grid. A row or column count of 0 is chosen automatically; when
+ * both are set but too small for every panel, rows are added.
+ *
+ * @function
+ * @param {number} panelCount - Number of panels.
+ * @param {number} rows       - Rows chosen in the formatting pane, 0 for auto.
+ * @param {number} columns    - Columns chosen in the formatting pane, 0 for auto.
+ * @param {number} width      - Width available to the grid.
+ * @param {number} height     - Height available to the grid.
+ */
+export function computeGrid(panelCount: number, rows: number, columns: number, width: number, height: number): GridLayout {
+    const count: number = Math.max(1, panelCount);
+    let gridColumns: number = Math.floor(columns);
+    let gridRows: number = Math.floor(rows);
+
+    if (gridColumns < 1) {
+        gridColumns = gridRows > 0
+            ? Math.ceil(count / gridRows)
+            : Math.ceil(Math.sqrt(count));
+    }
+    gridRows = Math.max(gridRows, Math.ceil(count / gridColumns));
+
+    return {
+        rows: gridRows,
+        columns: gridColumns,
+        cellWidth: width / gridColumns,
+        cellHeight: height / gridRows
+    };
+}
+
+/**
+ * Returns the top left corner of a panel in the grid, filled row by row.
+ *
+ * @function
+ * @param {number} index     - Index of the panel.
+ * @param {GridLayout} grid  - Grid the panel is placed in.
+ */
+export function getCellPosition(index: number, grid: GridLayout): { x: number, y: number } {
+    return {
+        x: (index % grid.columns) * grid.cellWidth,
+        y: Math.floor(index / grid.columns) * grid.cellHeight
+    };
+}
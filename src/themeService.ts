@@ -0,0 +1,155 @@
+import powerbiVisualsApi from "powerbi-visuals-api";
+import powerbi = powerbiVisualsApi;
+
+import ISandboxExtendedColorPalette = powerbi.extensibility.ISandboxExtendedColorPalette;
+
+/**
+ * How a bar or marker shows whether it is selected.
+ *
+ * @interface
+ * @property {number} opacity          - Fill and stroke opacity.
+ * @property {string} stroke           - Outline color, only set in high-contrast mode.
+ * @property {number} strokeWidth      - Outline width, only set in high-contrast mode.
+ * @property {string} strokeDasharray  - Outline dash pattern, only set in high-contrast mode.
+ */
+export interface SelectionStyle {
+    opacity: number;
+    stroke?: string;
+    strokeWidth?: number;
+    strokeDasharray?: string;
+}
+
+const HighContrastStrokeWidth: number = 2;
+const HighContrastSelectedStrokeWidth: number = 3;
+const HighContrastUnselectedDasharray: string = "3,3";
+
+/**
+ * Resolves the color of every drawn element. Outside high-contrast mode the colors chosen
+ * in the formatting pane are used as they are; in high-contrast mode they are replaced by
+ * the foreground, background, selected foreground and hyperlink colors of the palette.
+ */
+export class ThemeService {
+    private colorPalette: ISandboxExtendedColorPalette;
+
+    constructor(colorPalette: ISandboxExtendedColorPalette) {
+        this.colorPalette = colorPalette;
+    }
+
+    public get isHighContrast(): boolean {
+        return this.colorPalette.isHighContrast;
+    }
+
+    /**
+     * Returns the palette color for a category, series or measure, the default before
+     * the user picks one.
+     */
+    public getPaletteColor(key: string): string {
+        return this.colorPalette.getColor(key).value;
+    }
+
+    /**
+     * Returns the fill of a bar, segment, marker or legend swatch. High-contrast mode
+     * draws them hollow, on the background color with a foreground outline.
+     */
+    public getDataColor(color: string): string {
+        return this.isHighContrast ? this.colorPalette.background.value : color;
+    }
+
+    /**
+     * Returns the color of lines and text: axes, gridlines, titles, labels, the cumulative
+     * line and the analytics lines.
+     */
+    public getForegroundColor(color: string): string {
+        return this.isHighContrast ? this.colorPalette.foreground.value : color;
+    }
+
+    /**
+     * Returns the background of HTML elements drawn over the chart.
+     */
+    public getBackgroundColor(color: string): string {
+        return this.isHighContrast ? this.colorPalette.background.value : color;
+    }
+
+    /**
+     * Returns the outline of the element that has the keyboard focus when it is drawn by
+     * the visual rather than by the browser.
+     */
+    public getFocusColor(color: string): string {
+        return this.isHighContrast ? this.colorPalette.foregroundSelected.value : color;
+    }
+
+    /**
+     * Returns the color of elements the user can act on, such as links and the direct
+     * edit box.
+     */
+    public getHyperlinkColor(color: string): string {
+        return this.isHighContrast ? this.colorPalette.hyperlink.value : color;
+    }
+
+    /**
+     * Returns the outline of bars and segments, none outside high-contrast mode.
+     */
+    public getStrokeColor(): string {
+        return this.isHighContrast ? this.colorPalette.foreground.value : null;
+    }
+
+    public getStrokeWidth(): number {
+        return this.isHighContrast ? HighContrastStrokeWidth : 0;
+    }
+
+    /**
+     * Returns how a data point shows its selection state. Colors alone are not enough in
+     * high-contrast mode, so selected points get a thick outline in the selected
+     * foreground color and the others a dashed one instead of fading out.
+     *
+     * @param {boolean} isSelected    - Whether the data point is selected.
+     * @param {boolean} hasSelection  - Whether anything is selected.
+     * @param {number} opacity        - Opacity of the data point without a selection.
+     * @param {number} solidOpacity   - Opacity of selected data points.
+     * @param {number} fadedOpacity   - Opacity of the data points that are not selected.
+     */
+    public getSelectionStyle(
+        isSelected: boolean,
+        hasSelection: boolean,
+        opacity: number,
+        solidOpacity: number,
+        fadedOpacity: number
+    ): SelectionStyle {
+        if (!this.isHighContrast) {
+            return {
+                opacity: !hasSelection ? opacity : isSelected ? solidOpacity : fadedOpacity
+            };
+        }
+
+        return {
+            opacity: solidOpacity,
+            stroke: hasSelection && isSelected
+                ? this.colorPalette.foregroundSelected.value
+                : this.colorPalette.foreground.value,
+            strokeWidth: hasSelection && isSelected ? HighContrastSelectedStrokeWidth : HighContrastStrokeWidth,
+            strokeDasharray: hasSelection && !isSelected ? HighContrastUnselectedDasharray : null
+        };
+    }
+
+    /**
+     * Exposes the palette to the stylesheet as custom properties on the root element, so
+     * the HTML elements around the chart follow the theme. Outside high-contrast mode the
+     * properties are removed and the stylesheet defaults apply.
+     */
+    public applyToElement(element: HTMLElement): void {
+        const properties: { [name: string]: string } = {
+            "--pareto-foreground": this.colorPalette.foreground.value,
+            "--pareto-background": this.colorPalette.background.value,
+            "--pareto-foreground-selected": this.colorPalette.foregroundSelected.value,
+            "--pareto-hyperlink": this.colorPalette.hyperlink.value
+        };
+
+        Object.keys(properties).forEach((name: string) => {
+            if (this.isHighContrast) {
+                element.style.setProperty(name, properties[name]);
+            } else {
+                element.style.removeProperty(name);
+            }
+        });
+    }
+}
@@ -0,0 +1,72 @@
+import * as d3 from "d3";
+
+export const enum TransitionEasing {
+    Linear = "linear",
+    EaseInOut = "easeInOut",
+    EaseOut = "easeOut",
+    Bounce = "bounce"
+}
+
+/**
+ * Returns the easing function of an easing chosen in the formatting pane.
+ *
+ * @function
+ * @param {string} easing - Value of the easing dropdown.
+ */
+export function getEasing(easing: string): (normalizedTime: number) => number {
+    switch (easing) {
+        case TransitionEasing.Linear:
+            return d3.easeLinear;
+        case TransitionEasing.EaseOut:
+            return d3.easeCubicOut;
+        case TransitionEasing.Bounce:
+            return d3.easeBounceOut;
+        default:
+            return d3.easeCubicInOut;
+    }
+}
+
+/**
+ * Returns whether the host may show an animation: not while the report is rendered for
+ * export, a subscription or printing, which are the hosts that allow no interaction,
+ * and not when the user asked the system to reduce motion.
+ *
+ * @function
+ * @param {boolean} allowInteractions - Whether the host lets the user interact with the visual.
+ */
+export function canAnimate(allowInteractions: boolean): boolean {
+    const matches = (query: string): boolean => typeof window.matchMedia === "function" && window.matchMedia(query).matches;
+
+    return allowInteractions && !matches("print") && !matches("(prefers-reduced-motion: reduce)");
+}
+
+/**
+ * Returns an interpolator between two polylines for a path tween. The shorter line is
+ * padded by repeating its last point, so a line that gains or loses categories grows
+ * from or shrinks into its end.
+ *
+ * @function
+ * @param {Array} from  - Points of the line before the update, empty when there was none.
+ * @param {Array} to    - Points of the line after the update.
+ */
+export function interpolatePoints(
+    from: [number, number][],
+    to: [number, number][]
+): (normalizedTime: number) => [number, number][] {
+    if (!from.length || !to.length) {
+        return () => to;
+    }
+
+    const length: number = Math.max(from.length, to.length);
+    const pad = (points: [number, number][]): [number, number][] => Array.from(
+        { length },
+        (value: unknown, i: number) => points[Math.min(i, points.length - 1)]
+    );
+    const start: [number, number][] = pad(from);
+    const end: [number, number][] = pad(to);
+
+    return (normalizedTime: number) => normalizedTime >= 1 ? to : start.map((point: [number, number], i: number) => [
+        point[0] + (end[i][0] - point[0]) * normalizedTime,
+        point[1] + (end[i][1] - point[1]) * normalizedTime
+    ]);
+}
@@ -0,0 +1,153 @@
+import powerbiVisualsApi from "powerbi-visuals-api";
+import powerbi = powerbiVisualsApi;
+
+import { BarChartDataPoint } from "./paretoChart";
+
+import PrimitiveValue = powerbi.PrimitiveValue;
+
+export const enum ValuePolicy {
+    Zero = "Zero",
+    Exclude = "Exclude",
+    Absolute = "Absolute"
+}
+
+export const enum InvalidReason {
+    Null = "Null",
+    NonNumeric = "NonNumeric",
+    Negative = "Negative"
+}
+
+/**
+ * A value that was left out of the chart by the Exclude policy.
+ *
+ * @interface
+ * @property {string} category      - Category of the row.
+ * @property {string} series        - Series or measure of the value, when the bar is split.
+ * @property {string} panel         - Small multiple of the row, if any.
+ * @property {InvalidReason} reason - Why the value could not be drawn.
+ */
+export interface ExcludedValue {
+    category: string;
+    series?: string;
+    panel?: string;
+    reason: InvalidReason;
+}
+
+/**
+ * Data points that can be drawn, and the values that were excluded from them.
+ *
+ * @interface
+ * @property {BarChartDataPoint[]} dataPoints - Data points whose values are all non-negative numbers.
+ * @property {ExcludedValue[]} excluded       - Values left out, in data view order.
+ */
+export interface ValidationResult {
+    dataPoints: BarChartDataPoint[];
+    excluded: ExcludedValue[];
+}
+
+/**
+ * Returns why a value cannot be drawn as a bar, undefined when it is a non-negative number.
+ *
+ * @function
+ * @param {PrimitiveValue} value - Measure value of a data point.
+ */
+export function getInvalidReason(value: PrimitiveValue): InvalidReason | undefined {
+    if (value === null || value === undefined) {
+        return InvalidReason.Null;
+    }
+    if (typeof value !== "number" || !isFinite(value)) {
+        return InvalidReason.NonNumeric;
+    }
+    if (value < 0) {
+        return InvalidReason.Negative;
+    }
+
+    return undefined;
+}
+
+/**
+ * Returns the value to draw under the chosen policy, undefined when it is excluded.
+ * Nulls and non-numeric values have no absolute value, so the Absolute policy counts
+ * them as zero.
+ *
+ * @function
+ * @param {PrimitiveValue} value  - Measure value of a data point.
+ * @param {ValuePolicy} policy    - Policy chosen in the formatting pane.
+ */
+export function resolveValue(value: PrimitiveValue, policy: ValuePolicy): number | undefined {
+    const reason: InvalidReason = getInvalidReason(value);
+    if (reason === undefined) {
+        return <number>value;
+    }
+
+    switch (policy) {
+        case ValuePolicy.Exclude:
+            return undefined;
+        case ValuePolicy.Absolute:
+            return reason === InvalidReason.Negative ? Math.abs(<number>value) : 0;
+        default:
+            return 0;
+    }
+}
+
+/**
+ * Applies the policy to the values of the data points before they are ordered and
+ * accumulated, so the bars, the totals and the cumulative line only see non-negative
+ * numbers. A category whose value is excluded is dropped; an excluded series segment
+ * or secondary measure bar is dropped from its stack or cluster, and so is a series
+ * segment that comes to zero.
+ *
+ * @function
+ * @param {BarChartDataPoint[]} dataPoints - Data points in data view order.
+ * @param {ValuePolicy} policy             - Policy chosen in the formatting pane.
+ */
+export function applyValuePolicy(dataPoints: BarChartDataPoint[], policy: ValuePolicy): ValidationResult {
+    const excluded: ExcludedValue[] = [];
+
+    const resolve = (dataPoint: BarChartDataPoint): boolean => {
+        const value: number = resolveValue(dataPoint.value, policy);
+        if (value === undefined) {
+            excluded.push({
+                category: dataPoint.category,
+                series: dataPoint.series,
+                panel: dataPoint.panel,
+                reason: getInvalidReason(dataPoint.value)
+            });
+            return false;
+        }
+
+        dataPoint.value = value;
+        return true;
+    };
+
+    const validDataPoints: BarChartDataPoint[] = dataPoints.filter((dataPoint: BarChartDataPoint) => {
+        if (!dataPoint.segments) {
+            return resolve(dataPoint);
+        }
+
+        const isStacked: boolean = dataPoint.segments.every((segment: BarChartDataPoint) => segment.measureIndex === undefined);
+        if (!isStacked) {
+            // The sort measure decides whether the category is kept at all
+            if (!resolve(dataPoint)) {
+                return false;
+            }
+            dataPoint.segments = dataPoint.segments.filter(resolve);
+            return true;
+        }
+
+        // The stack total is recomputed from the segments that remain
+        let stackStart = 0;
+        dataPoint.segments = dataPoint.segments
+            .filter(resolve)
+            .filter((segment: BarChartDataPoint) => segment.value !== 0);
+        dataPoint.segments.forEach((segment: BarChartDataPoint) => {
+            segment.stackStart = stackStart;
+            stackStart += <number>segment.value;
+        });
+        dataPoint.value = stackStart;
+
+        return true;
+    });
+
+    return { dataPoints: validDataPoints, excluded };
+}
@@ -0,0 +1,15 @@
+import { createDataPoint, createSettings } from "./helpers";
+
+describe("populateColorSelector", () => {
+    it("shows the default color of the settings, not the color of the first category", () => {
+        const settings = createSettings();
+        settings.populateColorSelector([{ ...createDataPoint("Crack", 10, 0), color: "#E66C37" }], []);
+
+        expect(settings.colorSelector.slices).toEqual([
+            settings.colorSelector.colorBy,
+            settings.colorSelector.defaultColor,
+            settings.colorSelector.showAll
+        ]);
+        expect(settings.colorSelector.defaultColor.value.value).toBe("#118DFF");
+    });
+});
@@ -0,0 +1,47 @@
+import * as d3 from "d3";
+
+import { getLineExtent, LabelPosition, placeLabel } from "../src/dataLabels";
+
+describe("getLineExtent", () => {
+    const points: [number, number][] = [[0, 100], [20, 60], [40, 40]];
+
+    it("follows a straight line between its points", () => {
+        const [low, high] = getLineExtent(points, d3.curveLinear, 5, 15);
+
+        expect(low).toBeCloseTo(70, 3);
+        expect(high).toBeCloseTo(90, 3);
+    });
+
+    it("includes the riser of a step line", () => {
+        const [low, high] = getLineExtent(points, d3.curveStep, 28, 32);
+
+        expect(low).toBeCloseTo(40, 3);
+        expect(high).toBeCloseTo(60, 3);
+    });
+
+    it("stays between the points of a monotone line", () => {
+        const [low, high] = getLineExtent(points, d3.curveMonotoneX, 9, 11);
+
+        expect(low).toBeGreaterThan(60);
+        expect(high).toBeLessThan(100);
+    });
+
+    it("returns undefined where there is no line", () => {
+        expect(getLineExtent(points, d3.curveLinear, 50, 60)).toBeUndefined();
+        expect(getLineExtent([], d3.curveLinear, 0, 10)).toBeUndefined();
+    });
+});
+
+describe("placeLabel", () => {
+    const bar = { x: 0, y: 20, width: 30, height: 80 };
+
+    it("keeps the preferred position when the line passes elsewhere", () => {
+        expect(placeLabel(bar, 20, 10, LabelPosition.InsideEnd, 0, [60, 70]))
+            .toEqual({ x: 5, y: 22, width: 20, height: 10 });
+    });
+
+    it("moves the label off the line", () => {
+        expect(placeLabel(bar, 20, 10, LabelPosition.InsideEnd, 0, [15, 30]))
+            .toEqual({ x: 5, y: 55, width: 20, height: 10 });
+    });
+});
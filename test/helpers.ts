@@ -0,0 +1,152 @@
+import powerbiVisualsApi from "powerbi-visuals-api";
+import powerbi = powerbiVisualsApi;
+
+import { BarChartSettingsModel } from "../src/barChartSettingsModel";
+import { BarChartDataPoint } from "../src/paretoChart";
+import { ThemeService } from "../src/themeService";
+
+import DataView = powerbi.DataView;
+import DataViewCategoryColumn = powerbi.DataViewCategoryColumn;
+import DataViewValueColumn = powerbi.DataViewValueColumn;
+import DataViewValueColumnGroup = powerbi.DataViewValueColumnGroup;
+import DataViewValueColumns = powerbi.DataViewValueColumns;
+import ISandboxExtendedColorPalette = powerbi.extensibility.ISandboxExtendedColorPalette;
+import ISelectionId = powerbi.visuals.ISelectionId;
+import IVisualHost = powerbi.extensibility.visual.IVisualHost;
+import PrimitiveValue = powerbi.PrimitiveValue;
+
+/**
+ * Selection id whose key lists the parts it was built from, so tests can tell ids apart.
+ */
+function createSelectionId(key: string): ISelectionId {
+    return <ISelectionId><unknown>{
+        getKey: () => key,
+        getSelector: () => ({ data: [key] }),
+        getSelectorsByColumn: () => ({}),
+        equals: (other: ISelectionId) => other.getKey() === key,
+        includes: (other: ISelectionId) => other.getKey() === key,
+        hasIdentity: () => true
+    };
+}
+
+/**
+ * Host that only builds selection ids, the one service the view model uses.
+ */
+export function createMockHost(): IVisualHost {
+    return <IVisualHost><unknown>{
+        createSelectionIdBuilder: () => {
+            const parts: string[] = [];
+            const builder = {
+                withCategory: (column: DataViewCategoryColumn, index: number) => {
+                    parts.push(`${column.source.queryName}=${column.values[index]}`);
+                    return builder;
+                },
+                withSeries: (columns: DataViewValueColumns, group: { name?: PrimitiveValue }) => {
+                    parts.push(`series=${group.name}`);
+                    return builder;
+                },
+                withMeasure: (queryName: string) => {
+                    parts.push(`measure=${queryName}`);
+                    return builder;
+                },
+                createSelectionId: () => createSelectionId(parts.join("|"))
+            };
+            return builder;
+        }
+    };
+}
+
+/**
+ * Theme over a palette that names every color after its key.
+ */
+export function createTheme(isHighContrast: boolean = false): ThemeService {
+    const color = (value: string) => ({ value });
+
+    return new ThemeService(<ISandboxExtendedColorPalette><unknown>{
+        isHighContrast,
+        getColor: (key: string) => color(`palette:${key}`),
+        foreground: color("#000000"),
+        background: color("#FFFFFF"),
+        foregroundSelected: color("#00FFFF"),
+        hyperlink: color("#FFFF00")
+    });
+}
+
+/**
+ * Formatting settings as they are before the user changes anything.
+ */
+export function createSettings(): BarChartSettingsModel {
+    return new BarChartSettingsModel();
+}
+
+/**
+ * Data view with one category column and one measure column, the shape the host sends
+ * when no Series, Small multiples or Tooltips field is bound.
+ */
+export function createDataView(categories: PrimitiveValue[], values: PrimitiveValue[]): DataView {
+    const category: DataViewCategoryColumn = {
+        source: { displayName: "Defect", queryName: "Defects.Defect", roles: { category: true } },
+        values: categories
+    };
+    const measure: DataViewValueColumn = {
+        source: { displayName: "Count", queryName: "Sum(Defects.Count)", roles: { measure: true } },
+        values
+    };
+    const valueColumns: DataViewValueColumns = <DataViewValueColumns>Object.assign([measure], {
+        grouped: () => []
+    });
+
+    return {
+        metadata: { columns: [category.source, measure.source] },
+        categorical: {
+            categories: [category],
+            values: valueColumns
+        }
+    };
+}
+
+/**
+ * Data view with one category column and the measure grouped by a Series field, one
+ * group per entry of the given series values.
+ */
+export function createSeriesDataView(categories: PrimitiveValue[], series: { [name: string]: PrimitiveValue[] }): DataView {
+    const category: DataViewCategoryColumn = {
+        source: { displayName: "Defect", queryName: "Defects.Defect", roles: { category: true } },
+        values: categories
+    };
+    const groups: DataViewValueColumnGroup[] = Object.keys(series).map((name: string) => ({
+        name,
+        values: [{
+            source: { displayName: "Count", queryName: "Sum(Defects.Count)", groupName: name, roles: { measure: true } },
+            values: series[name]
+        }]
+    }));
+    const valueColumns: DataViewValueColumns = <DataViewValueColumns>Object.assign(
+        groups.map((group: DataViewValueColumnGroup) => group.values[0]), {
+            source: { displayName: "Plant", queryName: "Plants.Plant", roles: { series: true } },
+            grouped: () => groups
+        });
+
+    return {
+        metadata: { columns: [category.source, valueColumns.source] },
+        categorical: {
+            categories: [category],
+            values: valueColumns
+        }
+    };
+}
+
+/**
+ * Data point with only the fields the pure helpers read.
+ */
+export function createDataPoint(category: string, value: PrimitiveValue, index: number): BarChartDataPoint {
+    return {
+        category,
+        value,
+        index,
+        color: "#118DFF",
+        strokeColor: "none",
+        strokeWidth: 0,
+        selectionId: createSelectionId(category)
+    };
+}
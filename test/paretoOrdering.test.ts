@@ -0,0 +1,49 @@
+import { orderDataPoints, SortDirection, TieBreak } from "../src/paretoOrdering";
+import { createDataPoint } from "./helpers";
+
+describe("orderDataPoints", () => {
+    const dataPoints = [
+        createDataPoint("Dent", 10, 0),
+        createDataPoint("Crack", 30, 1),
+        createDataPoint("Burr", 10, 2),
+        createDataPoint("Scratch", 20, 3)
+    ];
+    const getCategories = (ordered: typeof dataPoints) => ordered.map(dataPoint => dataPoint.category);
+
+    it("sorts descending and breaks ties by category name", () => {
+        expect(getCategories(orderDataPoints(dataPoints, SortDirection.Descending, TieBreak.Category)))
+            .toEqual(["Crack", "Scratch", "Burr", "Dent"]);
+    });
+
+    it("sorts ascending", () => {
+        expect(getCategories(orderDataPoints(dataPoints, SortDirection.Ascending, TieBreak.Category)))
+            .toEqual(["Burr", "Dent", "Scratch", "Crack"]);
+    });
+
+    it("breaks ties by source order", () => {
+        expect(getCategories(orderDataPoints(dataPoints, SortDirection.Descending, TieBreak.SourceOrder)))
+            .toEqual(["Crack", "Scratch", "Dent", "Burr"]);
+    });
+
+    it("keeps the source order when unsorted", () => {
+        expect(getCategories(orderDataPoints(dataPoints, SortDirection.None, TieBreak.Category)))
+            .toEqual(["Dent", "Crack", "Burr", "Scratch"]);
+    });
+
+    it("does not reorder the given array", () => {
+        orderDataPoints(dataPoints, SortDirection.Descending, TieBreak.Category);
+
+        expect(getCategories(dataPoints)).toEqual(["Dent", "Crack", "Burr", "Scratch"]);
+    });
+
+    it("sorts values that are not numbers as zero", () => {
+        const withBlank = [createDataPoint("Dent", null, 0), createDataPoint("Crack", 5, 1)];
+
+        expect(getCategories(orderDataPoints(withBlank, SortDirection.Descending, TieBreak.Category)))
+            .toEqual(["Crack", "Dent"]);
+    });
+
+    it("returns an empty array for no data points", () => {
+        expect(orderDataPoints([], SortDirection.Descending, TieBreak.Category)).toEqual([]);
+    });
+});
@@ -0,0 +1,70 @@
+import { collapseLongTail, getCategoryKey, OtherBucketKey, OtherBucketMode, OtherBucketOptions } from "../src/paretoOtherBucket";
+import { createDataPoint } from "./helpers";
+
+describe("collapseLongTail", () => {
+    const dataPoints = [
+        createDataPoint("Crack", 50, 0),
+        createDataPoint("Scratch", 30, 1),
+        createDataPoint("Dent", 10, 2),
+        createDataPoint("Burr", 6, 3),
+        createDataPoint("Chip", 4, 4)
+    ];
+    const options: OtherBucketOptions = {
+        mode: OtherBucketMode.TopN,
+        topN: 2,
+        cutoff: 80,
+        label: "All other",
+        color: "#B3B0AD"
+    };
+
+    it("keeps the top N categories and merges the rest", () => {
+        const collapsed = collapseLongTail(dataPoints, options);
+        const bucket = collapsed[2];
+
+        expect(collapsed.map(dataPoint => dataPoint.category)).toEqual(["Crack", "Scratch", "All other"]);
+        expect(bucket.value).toBe(20);
+        expect(bucket.color).toBe("#B3B0AD");
+        expect(bucket.otherMembers.map(dataPoint => dataPoint.category)).toEqual(["Dent", "Burr", "Chip"]);
+    });
+
+    it("keeps the categories up to the cumulative cutoff", () => {
+        const collapsed = collapseLongTail(dataPoints, { ...options, mode: OtherBucketMode.CumulativePercent, cutoff: 85 });
+
+        expect(collapsed.map(dataPoint => dataPoint.category)).toEqual(["Crack", "Scratch", "Dent", "All other"]);
+    });
+
+    it("does not merge a single category", () => {
+        expect(collapseLongTail(dataPoints, { ...options, topN: 4 })).toBe(dataPoints);
+    });
+
+    it("keeps every category when they are all zero", () => {
+        const zeros = [createDataPoint("Crack", 0, 0), createDataPoint("Dent", 0, 1), createDataPoint("Burr", 0, 2)];
+
+        expect(collapseLongTail(zeros, { ...options, mode: OtherBucketMode.CumulativePercent })).toBe(zeros);
+    });
+
+    it("returns no data points unchanged", () => {
+        expect(collapseLongTail([], options)).toEqual([]);
+    });
+});
+
+describe("getCategoryKey", () => {
+    it("keys the \"All other\" bucket apart from a category with the same name", () => {
+        const dataPoints = [
+            createDataPoint("Other", 50, 0),
+            createDataPoint("Dent", 30, 1),
+            createDataPoint("Burr", 15, 2),
+            createDataPoint("Chip", 5, 3)
+        ];
+        const collapsed = collapseLongTail(dataPoints, {
+            mode: OtherBucketMode.TopN,
+            topN: 2,
+            cutoff: 80,
+            label: "Other",
+            color: "#B3B0AD"
+        });
+
+        expect(collapsed.map(dataPoint => dataPoint.category)).toEqual(["Other", "Dent", "Other"]);
+        expect(collapsed.map(getCategoryKey)).toEqual(["Other", "Dent", OtherBucketKey]);
+    });
+});
@@ -0,0 +1,39 @@
+import { applyCumulativeShares, markVitalFew } from "../src/paretoThreshold";
+import { createDataPoint } from "./helpers";
+
+describe("applyCumulativeShares", () => {
+    it("sets the rank, share, running total and cumulative percentage in order", () => {
+        const dataPoints = [createDataPoint("Crack", 60, 0), createDataPoint("Dent", 30, 1), createDataPoint("Burr", 10, 2)];
+        applyCumulativeShares(dataPoints, 100);
+
+        expect(dataPoints.map(dataPoint => dataPoint.rank)).toEqual([1, 2, 3]);
+        expect(dataPoints.map(dataPoint => dataPoint.share)).toEqual([60, 30, 10]);
+        expect(dataPoints.map(dataPoint => dataPoint.runningTotal)).toEqual([60, 90, 100]);
+        expect(dataPoints.map(dataPoint => dataPoint.cumulative)).toEqual([60, 90, 100]);
+    });
+
+    it("gives every category a zero share when the total is zero", () => {
+        const dataPoints = [createDataPoint("Crack", 0, 0), createDataPoint("Dent", 0, 1)];
+        applyCumulativeShares(dataPoints, 0);
+
+        expect(dataPoints.map(dataPoint => dataPoint.share)).toEqual([0, 0]);
+        expect(dataPoints.map(dataPoint => dataPoint.cumulative)).toEqual([0, 0]);
+    });
+
+    it("accumulates a single category to 100%", () => {
+        const dataPoints = [createDataPoint("Crack", 7, 0)];
+        applyCumulativeShares(dataPoints, 7);
+
+        expect(dataPoints[0].cumulative).toBe(100);
+    });
+});
+
+describe("markVitalFew", () => {
+    it("flags the categories up to and including the one reaching the threshold", () => {
+        const dataPoints = [createDataPoint("Crack", 60, 0), createDataPoint("Dent", 30, 1), createDataPoint("Burr", 10, 2)];
+        applyCumulativeShares(dataPoints, 100);
+
+        expect(markVitalFew(dataPoints, 80)).toBe(2);
+        expect(dataPoints.map(dataPoint => dataPoint.isVitalFew)).toEqual([true, true, false]);
+    });
+});
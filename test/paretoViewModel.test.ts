@@ -0,0 +1,174 @@
+import { buildViewModel, ParetoViewModel } from "../src/paretoViewModel";
+import { BarChartDataPoint } from "../src/paretoChart";
+import { BarChartSettingsModel } from "../src/barChartSettingsModel";
+import { createDataView, createMockHost, createSeriesDataView, createSettings, createTheme } from "./helpers";
+
+function build(categories: string[], values: unknown[], settings: BarChartSettingsModel = createSettings()): ParetoViewModel {
+    return buildViewModel(createDataView(categories, <never[]>values), settings, createMockHost(), createTheme());
+}
+
+function getCategories(viewModel: ParetoViewModel): string[] {
+    return viewModel.panels[0].dataPoints.map((dataPoint: BarChartDataPoint) => dataPoint.category);
+}
+
+describe("buildViewModel", () => {
+    it("orders the categories by descending value and accumulates their shares", () => {
+        const viewModel = build(["Scratch", "Dent", "Crack"], [20, 50, 30]);
+        const dataPoints = viewModel.panels[0].dataPoints;
+
+        expect(getCategories(viewModel)).toEqual(["Dent", "Crack", "Scratch"]);
+        expect(dataPoints.map(dataPoint => dataPoint.rank)).toEqual([1, 2, 3]);
+        expect(dataPoints.map(dataPoint => dataPoint.cumulative)).toEqual([50, 80, 100]);
+        expect(viewModel.panels[0].total).toBe(100);
+        expect(viewModel.categoryName).toBe("Defect");
+        expect(viewModel.measureName).toBe("Count");
+    });
+
+    it("breaks ties by category name", () => {
+        const viewModel = build(["Dent", "Crack", "Scratch"], [10, 10, 30]);
+
+        expect(getCategories(viewModel)).toEqual(["Scratch", "Crack", "Dent"]);
+    });
+
+    it("returns no panels when there is no data", () => {
+        const viewModel = build([], []);
+
+        expect(viewModel.panels).toEqual([]);
+        expect(viewModel.excluded).toEqual([]);
+    });
+
+    it("returns no panels without a data view", () => {
+        const viewModel = buildViewModel(undefined, createSettings(), createMockHost(), createTheme());
+
+        expect(viewModel.panels).toEqual([]);
+        expect(viewModel.series).toEqual([]);
+        expect(viewModel.measures).toEqual([]);
+    });
+
+    it("treats blank values as zero by default", () => {
+        const viewModel = build(["Dent", "Crack", "Scratch"], [null, 40, 60]);
+
+        expect(getCategories(viewModel)).toEqual(["Scratch", "Crack", "Dent"]);
+        expect(viewModel.panels[0].dataPoints[2].value).toBe(0);
+        expect(viewModel.excluded).toEqual([]);
+    });
+
+    it("leaves out and reports blank values when they are excluded", () => {
+        const settings = createSettings();
+        settings.invalidValues.policy.value = settings.invalidValues.policy.items[1];
+        const viewModel = build(["Dent", "Crack", "Scratch"], [null, 40, 60], settings);
+
+        expect(getCategories(viewModel)).toEqual(["Scratch", "Crack"]);
+        expect(viewModel.excluded).toEqual([{ category: "Dent", series: undefined, panel: undefined, reason: "Null" }]);
+    });
+
+    it("reports blank series values that are excluded from a stack", () => {
+        const settings = createSettings();
+        settings.invalidValues.policy.value = settings.invalidValues.policy.items[1];
+        const dataView = createSeriesDataView(["Crack", "Dent"], { North: [3, null], South: [2, 4] });
+        const viewModel = buildViewModel(dataView, settings, createMockHost(), createTheme());
+
+        expect(viewModel.panels[0].dataPoints.map(dataPoint => dataPoint.segments.length)).toEqual([2, 1]);
+        expect(viewModel.excluded).toEqual([{ category: "Dent", series: "North", panel: undefined, reason: "Null" }]);
+    });
+
+    it("accumulates a single category to 100%", () => {
+        const viewModel = build(["Dent"], [42]);
+        const dataPoint = viewModel.panels[0].dataPoints[0];
+
+        expect(viewModel.panels).toHaveLength(1);
+        expect(dataPoint.cumulative).toBe(100);
+        expect(dataPoint.isVitalFew).toBe(true);
+        expect(viewModel.panels[0].vitalFewCount).toBe(1);
+    });
+
+    it("sums every compared measure for the shared value axis", () => {
+        const dataView = createDataView(["Crack", "Dent"], [3, 1]);
+        dataView.categorical.values.push({
+            source: { displayName: "Cost", queryName: "Sum(Defects.Cost)", roles: { measure: true } },
+            values: [200, 600]
+        });
+        const viewModel = buildViewModel(dataView, createSettings(), createMockHost(), createTheme());
+
+        expect(viewModel.panels[0].total).toBe(4);
+        expect(viewModel.panels[0].measureTotals).toEqual([4, 800]);
+    });
+
+    it("orders and accumulates a very large number of categories", () => {
+        const count = 100000;
+        const categories = Array.from({ length: count }, (value, i) => `Category ${i}`);
+        const values = Array.from({ length: count }, (value, i) => i % 1000);
+        const viewModel = build(categories, values);
+        const dataPoints = viewModel.panels[0].dataPoints;
+
+        expect(dataPoints).toHaveLength(count);
+        expect(dataPoints.every((dataPoint, i) => i === 0 || <number>dataPoints[i - 1].value >= <number>dataPoint.value))
+            .toBe(true);
+        expect(dataPoints[count - 1].cumulative).toBeCloseTo(100, 6);
+    });
+});
+
+describe("buildViewModel colors", () => {
+    it("keeps the color of the \"All other\" bucket when the vital few are highlighted", () => {
+        const settings = createSettings();
+        settings.vitalFew.show.value = true;
+        settings.allOther.show.value = true;
+        settings.allOther.topN.value = 2;
+        const viewModel = build(["Crack", "Dent", "Burr", "Chip"], [60, 25, 10, 5], settings);
+
+        expect(viewModel.panels[0].dataPoints.map(dataPoint => dataPoint.color)).toEqual([
+            settings.vitalFew.vitalFewFill.value.value,
+            settings.vitalFew.vitalFewFill.value.value,
+            settings.allOther.fill.value.value
+        ]);
+    });
+
+    it("colors the bars by Pareto zone even when the vital few are highlighted", () => {
+        const settings = createSettings();
+        const colorSelector = settings.colorSelector;
+        colorSelector.colorBy.value = colorSelector.colorBy.items[1];
+        settings.vitalFew.show.value = true;
+        const viewModel = build(["Crack", "Dent", "Burr", "Chip"], [80, 15, 3, 2], settings);
+
+        expect(viewModel.panels[0].dataPoints.map(dataPoint => dataPoint.zone)).toEqual(["A", "B", "C", "C"]);
+        expect(viewModel.panels[0].dataPoints.map(dataPoint => dataPoint.color)).toEqual([
+            colorSelector.zoneAFill.value.value,
+            colorSelector.zoneBFill.value.value,
+            colorSelector.zoneCFill.value.value,
+            colorSelector.zoneCFill.value.value
+        ]);
+    });
+});
+
+describe("buildViewModel selection ids", () => {
+    it("gives every category its own selection id", () => {
+        const viewModel = build(["Dent", "Crack"], [1, 2]);
+
+        expect(viewModel.panels[0].dataPoints.map(dataPoint => dataPoint.selectionId.getKey()))
+            .toEqual(["Defects.Defect=Crack", "Defects.Defect=Dent"]);
+    });
+
+    it("saves category colors on the category alone so they apply in every small multiple", () => {
+        const dataView = createDataView(["Crack", "Crack"], [1, 2]);
+        dataView.categorical.categories.push({
+            source: { displayName: "Plant", queryName: "Plants.Plant", roles: { smallMultiples: true } },
+            values: ["North", "South"]
+        });
+        const viewModel = buildViewModel(dataView, createSettings(), createMockHost(), createTheme());
+        const [north, south] = viewModel.panels.map(panel => panel.dataPoints[0]);
+
+        expect(north.selectionId.getKey()).not.toBe(south.selectionId.getKey());
+        expect(north.categorySelectionId.getKey()).toBe("Defects.Defect=Crack");
+        expect(south.categorySelectionId.getKey()).toBe("Defects.Defect=Crack");
+    });
+
+    it("saves the color of a stack segment on its series", () => {
+        const dataView = createSeriesDataView(["Crack", "Dent"], { North: [3, 1], South: [2, 1] });
+        const viewModel = buildViewModel(dataView, createSettings(), createMockHost(), createTheme());
+        const segments = viewModel.panels[0].dataPoints[0].segments;
+
+        expect(segments.map(segment => segment.selectionId.getKey()))
+            .toEqual(["Defects.Defect=Crack|series=North", "Defects.Defect=Crack|series=South"]);
+        expect(segments.map(segment => segment.seriesSelectionId.getKey())).toEqual(["series=North", "series=South"]);
+    });
+});
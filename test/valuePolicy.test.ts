@@ -0,0 +1,67 @@
+import { applyValuePolicy, InvalidReason, ValuePolicy } from "../src/valuePolicy";
+import { createDataPoint } from "./helpers";
+
+describe("applyValuePolicy", () => {
+    const createDataPoints = () => [
+        createDataPoint("Crack", 10, 0),
+        createDataPoint("Dent", null, 1),
+        createDataPoint("Burr", "n/a", 2),
+        createDataPoint("Chip", -4, 3)
+    ];
+
+    it("treats invalid values as zero", () => {
+        const result = applyValuePolicy(createDataPoints(), ValuePolicy.Zero);
+
+        expect(result.dataPoints.map(dataPoint => dataPoint.value)).toEqual([10, 0, 0, 0]);
+        expect(result.excluded).toEqual([]);
+    });
+
+    it("excludes invalid values and reports why", () => {
+        const result = applyValuePolicy(createDataPoints(), ValuePolicy.Exclude);
+
+        expect(result.dataPoints.map(dataPoint => dataPoint.category)).toEqual(["Crack"]);
+        expect(result.excluded.map(value => [value.category, value.reason])).toEqual([
+            ["Dent", InvalidReason.Null],
+            ["Burr", InvalidReason.NonNumeric],
+            ["Chip", InvalidReason.Negative]
+        ]);
+    });
+
+    it("takes the absolute value of negative values", () => {
+        const result = applyValuePolicy(createDataPoints(), ValuePolicy.Absolute);
+
+        expect(result.dataPoints.map(dataPoint => dataPoint.value)).toEqual([10, 0, 0, 4]);
+    });
+
+    it("recomputes a stack total from the segments that remain", () => {
+        const dataPoint = createDataPoint("Crack", 0, 0);
+        dataPoint.segments = [
+            { ...createDataPoint("Crack", 5, 0), series: "Line 1" },
+            { ...createDataPoint("Crack", null, 0), series: "Line 2" },
+            { ...createDataPoint("Crack", 3, 0), series: "Line 3" }
+        ];
+        const result = applyValuePolicy([dataPoint], ValuePolicy.Exclude);
+
+        expect(result.dataPoints[0].value).toBe(8);
+        expect(result.dataPoints[0].segments.map(segment => segment.stackStart)).toEqual([0, 5]);
+        expect(result.excluded).toEqual([{ category: "Crack", series: "Line 2", panel: undefined, reason: InvalidReason.Null }]);
+    });
+
+    it("drops the stack segments that come to zero once the policy is applied", () => {
+        const dataPoint = createDataPoint("Crack", 0, 0);
+        dataPoint.segments = [
+            { ...createDataPoint("Crack", 5, 0), series: "Line 1" },
+            { ...createDataPoint("Crack", null, 0), series: "Line 2" },
+            { ...createDataPoint("Crack", 0, 0), series: "Line 3" }
+        ];
+        const result = applyValuePolicy([dataPoint], ValuePolicy.Zero);
+
+        expect(result.dataPoints[0].segments.map(segment => segment.series)).toEqual(["Line 1"]);
+        expect(result.dataPoints[0].value).toBe(5);
+        expect(result.excluded).toEqual([]);
+    });
+
+    it("returns no data points unchanged", () => {
+        expect(applyValuePolicy([], ValuePolicy.Exclude)).toEqual({ dataPoints: [], excluded: [] });
+    });
+});